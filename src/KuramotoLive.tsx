@@ -6,82 +6,139 @@ import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
-import { Play, Pause, RotateCcw, Shuffle, Gauge, CircleDot } from "lucide-react";
-
-// ----------------------- Utility -----------------------
-const clamp = (v: number, lo: number, hi: number) => {
-    const n = Number.isFinite(v) ? Math.trunc(v) : lo;
-    return Math.max(lo, Math.min(hi, n));
-};
-function gaussianRandom(mean = 0, std = 1) {
-    // Box-Muller
-    let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
-    const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-    return mean + std * z;
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea } from "recharts";
+import { Play, Pause, RotateCcw, Shuffle, Gauge, CircleDot, Dices } from "lucide-react";
+import { clamp, TAU, wrapAngle } from "@/core/utils";
+import { createStreams, randomSeed, rngStream } from "@/core/random";
+import { EdgeList, buildAdjacency, degree, edgeCount, latticeDims, toCsr, weightEdges, type RingKernel, type Topology, type WeightMode } from "@/core/graph";
+import { KuramotoSystem, MODELS, computeOrder, daidoOrders, type ModelName, type Pin } from "@/core/kuramoto";
+import { INTEGRATORS, type IntegratorName } from "@/core/integrators";
+import { isPureSine, parseFourier, sakaguchi, type CouplingFunction } from "@/core/coupling";
+import type { FromWorker, ToWorker } from "@/core/protocol";
+import { DAIDO_MAX, SAMPLE_FIELDS, SAMPLE_STRIDE } from "@/core/runner";
+import type { SweepOptions, SweepPoint } from "@/core/sweep";
+import { criticalCoupling, steadyStateR, type OmegaDistribution } from "@/core/theory";
+import type { ReducedModel } from "@/core/ottAntonsen";
+import { blockPopulations, sampleFrequency, type FrequencySpec } from "@/core/populations";
+import { classifyCoherence, localOrder } from "@/core/chimera";
+import { SpaceTimeBuffer } from "@/core/spacetime";
+import { FrequencyWindow, frequencyClusters } from "@/core/locking";
+import { forcingTargets, type Forcing, type ForcingTargets } from "@/core/forcing";
+import { parseSchedule, scheduleEnd, type Schedule, type ScheduledValues } from "@/core/schedule";
+import {
+    EXPERIMENT_VERSION, ExperimentError, experimentFromHash, experimentToHash, parseExperiment, savedTopology, type Experiment, type ExperimentIssue,
+} from "@/core/experiment";
+import { TrajectoryStore, trajectoryToCSV, trajectoryToNpz, trajectoryToZarr } from "@/core/trajectory";
+import { parseSnapshot, restoreSnapshot, snapshotToJSON, takeSnapshot, type Snapshot } from "@/core/snapshot";
+import { OrderHistory, historyToDelimited, statMean } from "@/core/history";
+import SweepCard from "@/components/SweepCard";
+import PopulationsCard from "@/components/PopulationsCard";
+import NumberField from "@/components/NumberField";
+import ProtocolCard from "@/components/ProtocolCard";
+import ExperimentCard from "@/components/ExperimentCard";
+import SnapshotsCard from "@/components/SnapshotsCard";
+import RecorderCard, { type TrajectoryFormat } from "@/components/RecorderCard";
+import SpaceTimeCard, { type SpaceTimeQuantity } from "@/components/SpaceTimeCard";
+import LockingCard from "@/components/LockingCard";
+import OscillatorTable from "@/components/OscillatorTable";
+import OscillatorInspector from "@/components/OscillatorInspector";
+import { downloadBlob } from "@/lib/download";
+import { POPULATION_COLORS } from "@/lib/palette";
+import {
+    GraphImportError, detectGraphFormat, parseGraph, type GraphFormat, type ImportedGraph, type ParseIssue,
+} from "@/core/graphio";
+
+// Upper bound for N; the integrator runs off the main thread, so this is set by
+// memory and graph-building time rather than UI responsiveness.
+const MAX_N = 20_000;
+
+// Phase-circle layout in device pixels, shared by draw() and picking
+function circleGeometry(canvas: HTMLCanvasElement) {
+    const dpr = window.devicePixelRatio || 1;
+    const w = canvas.clientWidth * dpr;
+    const h = canvas.clientHeight * dpr;
+    return { dpr, w, h, cx: w * 0.5, cy: h * 0.5, R: Math.min(w, h) * 0.38 };
 }
 
-function cauchyRandom(x0 = 0, gamma = 1) {
-    // Inqverse transform of standard Cauchy
-    const u = Math.random() - 0.5;
-    return x0 + gamma * Math.tan(Math.PI * u);
-}
+// r(t) chart: at most this many points on screen, and the plot area's inset in the host
+const CHART_POINTS = 800;
+const CHART_INSET = { left: 65, right: 20 };
+const SIDE_AXIS_WIDTH = 50; // each right-hand axis (ψ, dψ/dt) narrows the plot by this much
 
-function buildAdjacency(type: string, N: number, p = 0.05): number[][] | null {
-    // returns adjacency list (array of arrays of neighbors)
-    const adj = new Array(N);
-    for (let i = 0; i < N; i++) adj[i] = [];
-    if (type === "all") {
-        // Use a marker, we'll treat specially
-        return null; // null indicates all-to-all for fast path
-    }
-    if (type === "ring") {
-        for (let i = 0; i < N; i++) {
-            const left = (i - 1 + N) % N;
-            const right = (i + 1) % N;
-            if (left === right) {
-                adj[i].push(left);
-            } else {
-                adj[i].push(left);
-                adj[i].push(right);
-            }
-        }
-        return adj;
-    }
-    if (type === "er") {
-        for (let i = 0; i < N; i++) {
-            for (let j = i + 1; j < N; j++) {
-                if (Math.random() < p) {
-                    adj[i].push(j);
-                    adj[j].push(i);
-                }
-            }
-        }
-        return adj;
-    }
-    return null;
-}
+type OrderLine = "psi" | "dpsi" | "r2" | "daido";
+
+const canShareMemory = () => typeof SharedArrayBuffer !== "undefined" && globalThis.crossOriginIsolated === true;
 
 
 // ----------------------- Main Component -----------------------
 export default function KuramotoLive() {
     // ---- Parameters ----
+    const [model, setModel] = useState<ModelName>("kuramoto");
+    const [mass, setMass] = useState(1); // inertia m (2nd-order model)
+    const [damping, setDamping] = useState(1); // damping d (2nd-order model)
     const [N, setN] = useState(5); // number of oscillators
     const [K, setK] = useState(1); // coupling strength
+    const [couplingMode, setCouplingMode] = useState<"sakaguchi" | "fourier">("sakaguchi");
+    const [alphaDeg, setAlphaDeg] = useState(0); // Sakaguchi phase lag α
+    const [harmonic2, setHarmonic2] = useState(0); // b in b·sin(2Δ)
+    const [fourierText, setFourierText] = useState("1 1 0\n2 0.5 0");
+    const [fourierCoupling, setFourierCoupling] = useState<CouplingFunction | null>(null); // last applied series
+    const [fourierError, setFourierError] = useState<string | null>(null);
+    const [popCount, setPopCount] = useState(1); // P; 1 => single population sharing K
+    const [popSpecs, setPopSpecs] = useState<FrequencySpec[]>([{ kind: "gaussian", center: 0, width: 0.6 }]);
+    const [popMatrix, setPopMatrix] = useState<number[]>([1]); // P×P row-major K_ab
     const [dt, setDt] = useState(0.02); // integration step (s)
     const [noise, setNoise] = useState(0); // white noise amplitude
-    const [omegaMode, setOmegaMode] = useState("gaussian"); // gaussian | cauchy | uniform
+    const [forceOn, setForceOn] = useState(false); // external drive F sin(Ωt − θ_i)
+    const [forceF, setForceF] = useState(0.5);
+    const [forceOmega, setForceOmega] = useState(1); // drive frequency Ω
+    const [forceTarget, setForceTarget] = useState<ForcingTargets["kind"]>("all");
+    const [forceFrom, setForceFrom] = useState(0);
+    const [forceTo, setForceTo] = useState(9);
+    const [forceP, setForceP] = useState(0.5);
+    const [scheduleText, setScheduleText] = useState("0 K ramp 0 3 200\n200 K = 1\n210 noise = 0.5\n220 noise = 0");
+    const [schedule, setSchedule] = useState<Schedule | null>(null); // running protocol
+    const [scheduleError, setScheduleError] = useState<string | null>(null);
+    const [integrator, setIntegrator] = useState<IntegratorName>("euler");
+    const [tol, setTol] = useState(1e-6); // RK45 error tolerance
+    const [omegaMode, setOmegaMode] = useState("gaussian"); // gaussian | cauchy | bimodal | uniform | power
     const [omegaText, setOmegaText] = useState<string>("");
     const [gaussStd, setGaussStd] = useState(0.6);
     const [cauchyGamma, setCauchyGamma] = useState(0.5);
+    const [bimodalOffset, setBimodalOffset] = useState(1.0); // ±ω0 of the two Lorentzian peaks
     const [uniRange, setUniRange] = useState(1.0);
-    const [topology, setTopology] = useState("all"); // all | ring | er
+    const [powerP, setPowerP] = useState(1.0); // generator power for the ±P split
+    const [genFraction, setGenFraction] = useState(0.5); // share of nodes that are generators
+    const [topology, setTopology] = useState<Topology | "file">("all");
     const [erProb, setErProb] = useState(0.05);
+    const [ringK, setRingK] = useState(2); // ring / small-world neighbours per node
+    const [ringKernel, setRingKernel] = useState<RingKernel>("exp"); // nonlocal ring kernel
+    const [ringRadius, setRingRadius] = useState(4); // nonlocal kernel radius R (sites)
+    const [latticeStencil, setLatticeStencil] = useState<4 | 8>(4);
+    const [wsBeta, setWsBeta] = useState(0.1); // small-world rewiring probability
+    const [baM, setBaM] = useState(2); // scale-free edges per new node
+    const [starHubs, setStarHubs] = useState(1);
+    const [imported, setImported] = useState<(ImportedGraph & { name: string }) | null>(null);
+    const [importFormat, setImportFormat] = useState<GraphFormat | "auto">("auto");
+    const [importIssues, setImportIssues] = useState<ParseIssue[]>([]);
+    const [weightMode, setWeightMode] = useState<WeightMode>("unit");
+    const [repulsiveFrac, setRepulsiveFrac] = useState(0.2); // share of negative edges for "signed"
+    const [includeSeed, setIncludeSeed] = useState(true); // saved experiments / links carry the seed
+    const [experimentIssues, setExperimentIssues] = useState<ExperimentIssue[]>([]);
+    const [experimentGen, setExperimentGen] = useState(0); // bumped on load: regenerate as for a new N / seed
+    const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+    const [snapshotError, setSnapshotError] = useState<string | null>(null);
+    const [recording, setRecording] = useState(false);
+    const [recordInterval, setRecordInterval] = useState(0.1); // sim seconds between trajectory samples
+    const [recordDrift, setRecordDrift] = useState(false);
     const [chartTick, setChartTick] = useState(0);
+    const [chartView, setChartView] = useState<{ from: number; to: number } | null>(null); // zoomed r(t) window, null => whole run
+    const [csvMode, setCsvMode] = useState<"raw" | "decimated">("raw"); // r(t) export: recent samples or the whole run
     const lastChartUpdateRef = useRef(0);
+    const panRef = useRef<{ x: number; view: { from: number; to: number } } | null>(null); // chart drag in progress
     const [nText, setNText] = useState(String(N));
+    const [seed, setSeed] = useState(() => randomSeed());
+    const [seedText, setSeedText] = useState(String(seed));
 
     // Phases (θ) init controls
     const [phaseMode, setPhaseMode] = useState<"uniform"|"zero"|"linear"|"two-cluster"|"manual">("linear");
@@ -94,53 +151,80 @@ export default function KuramotoLive() {
     const [running, setRunning] = useState(false);
     const [showCentroid, setShowCentroid] = useState(true);
     const [showLabels, setShowLabels] = useState(false);
+    const [showSpaceTime, setShowSpaceTime] = useState(false);
+    const [spaceTimeQuantity, setSpaceTimeQuantity] = useState<SpaceTimeQuantity>("local");
+    const [spaceTimeRows, setSpaceTimeRows] = useState(300); // history length (one row per frame)
+    const [showLocking, setShowLocking] = useState(false);
+    const [lockWindow, setLockWindow] = useState(10); // averaging window for ⟨dθ/dt⟩ (s)
+    const [lockTol, setLockTol] = useState(0.01); // Ω within this chain into one cluster (rad/s)
+    const [showTheory, setShowTheory] = useState(true);
+    const [showReduced, setShowReduced] = useState(false); // Ott–Antonsen line
+    const [orderLines, setOrderLines] = useState<Record<OrderLine, boolean>>({ psi: false, dpsi: false, r2: false, daido: false });
     const [speed, setSpeed] = useState(1); // sim speed multiplier
 
     const canvasRef = useRef<HTMLCanvasElement | null>(null);    const rafRef = useRef(0);
-    const accRef = useRef(0);
-
-    const thetaRef = useRef(new Float64Array(N));
-    const omegaRef = useRef(new Float64Array(N));
-    const adjRef = useRef<number[][] | null>(null);
-
-    const rBufferRef = useRef<Array<{ t: number; r: number }>>([]); // t, r
-    const tRef = useRef(0);
-    const lastFrameTimeRef = useRef(typeof performance !== "undefined" ? performance.now() : 0);
+    const drawRef = useRef(() => {});
+
+    const streamsRef = useRef(createStreams(seed));
+    // Mirror of the worker's system: θ is refreshed from frames, everything
+    // else is authored here and pushed to the worker with syncWorker()
+    const sysRef = useRef(new KuramotoSystem(N, { K, noise, method: integrator, tol }));
+
+    const workerRef = useRef<Worker | null>(null);
+    const genRef = useRef(0); // bumped on every load; stale frames are dropped
+    const sharedRef = useRef<Float64Array | null>(null);
+    const reseedNoiseRef = useRef(true);
+
+    // space–time rows of θ_i and R_i, recorded only while the plot is shown
+    const phaseHistoryRef = useRef(new SpaceTimeBuffer(300));
+    const localHistoryRef = useRef(new SpaceTimeBuffer(300));
+    const recordSpaceTimeRef = useRef(false);
+    // protocol start (sim time) and current scheduled values, from the latest frame
+    const scheduledRef = useRef<{ start: number; values: ScheduledValues } | null>(null);
+    // unwrapped-phase snapshots for effective frequencies (fed only while tracking)
+    const frequencyWindowRef = useRef(new FrequencyWindow());
+    // r(t) and companion series for the whole run, decimated as it ages
+    const historyRef = useRef(new OrderHistory());
+    // snapshot waiting for the N it was taken at; its graph survives that rebuild
+    const pendingSnapshotRef = useRef<Snapshot | null>(null);
+    const keepGraphRef = useRef(false);
+    // θ_i(t) rows streamed from the worker while recording
+    const trajectoryRef = useRef(new TrajectoryStore());
+
+    // K-sweep results streamed back from the worker
+    const [sweepPoints, setSweepPoints] = useState<SweepPoint[]>([]);
+    const [sweepProgress, setSweepProgress] = useState<number | null>(null);
+    const sweepIdRef = useRef(0);
     const [perOscView, setPerOscView] = useState(false);
 
-    const omegaList = useMemo(() => {
-        const w = omegaRef.current ?? new Float64Array(0);
-        const n = Math.min(w.length, 5);
-        const out = new Array<number>(n);
-        for (let i = 0; i < n; i++) out[i] = w[i];
-        return out;
-    }, [chartTick, N]);
-
-    const thetaList = useMemo(() => {
-        const th = thetaRef.current ?? new Float64Array(0);
-        const n = Math.min(th.length, 5);
-        const out = new Array<number>(n);
-        for (let i = 0; i < n; i++) {
-            out[i] = Math.atan2(Math.sin(th[i]), Math.cos(th[i])); // wrap to [-π, π]
-        }
-        return out;
-    }, [chartTick, N]);
-
-    const dthetaList = useMemo(() => {
-        const th = thetaRef.current ?? new Float64Array(0);
-        const drift = instantaneousDrift(th);
-        const n = Math.min(drift.length, 5);
-        const out = new Array<number>(n);
-        for (let i = 0; i < n; i++) out[i] = drift[i];
+    const [highlighted, setHighlighted] = useState<number | null>(null); // oscillator picked in the table or on the canvas
+    const [pins, setPins] = useState<Pin[]>([]); // fixed-phase / pacemaker oscillators
+    const [dragging, setDragging] = useState<number | null>(null); // held in place while dragged
+    const activePins = useMemo(() => {
+        const list = pins.filter(p => p.index < N && p.index !== dragging);
+        if (dragging !== null && dragging < N) list.push({ index: dragging, frequency: 0 });
+        return list;
+    }, [pins, dragging, N]);
+
+    // Full per-oscillator readouts, computed only while the table is open
+    const driftNow = useMemo(
+        () => (perOscView ? sysRef.current.drift() : null),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [perOscView, chartTick, N],
+    );
+    const adjNow = sysRef.current.adj;
+    const degrees = useMemo(() => {
+        if (!adjNow || adjNow.n !== N) return null;
+        const out = new Int32Array(N);
+        for (let i = 0; i < N; i++) out[i] = degree(adjNow, i);
         return out;
-    }, [chartTick, N, K, topology, erProb]);
+    }, [adjNow, N]);
 
-    const TAU = Math.PI * 2;
     const deg2rad = (d: number) => (d * Math.PI) / 180;
 
 // Format current θ list (like omega’s formatter)
     function formatThetaList(): string {
-        const th = thetaRef.current;
+        const th = sysRef.current.theta;
         const max = Math.min(th.length, 2000);
         const arr: string[] = new Array(max);
         for (let i = 0; i < max; i++) arr[i] = th[i].toString();
@@ -156,7 +240,7 @@ export default function KuramotoLive() {
             .map(Number)
             .filter(Number.isFinite);
 
-        const th = thetaRef.current;
+        const th = sysRef.current.theta;
         const n = th.length;
 
         if (tokens.length === 0) {
@@ -167,35 +251,35 @@ export default function KuramotoLive() {
             for (let i = 0; i < n; i++) th[i] = i < tokens.length ? tokens[i] : last;
         }
         // normalize to [-pi, pi]
-        for (let i = 0; i < n; i++) th[i] = Math.atan2(Math.sin(th[i]), Math.cos(th[i]));
+        for (let i = 0; i < n; i++) th[i] = wrapAngle(th[i]);
     }
 
 // Presets
     function setPhasesUniform() {
-        const th = thetaRef.current;
-        for (let i = 0; i < th.length; i++) th[i] = Math.random() * TAU - Math.PI; // [-π, π)
+        const th = sysRef.current.theta;
+        for (let i = 0; i < th.length; i++) th[i] = streamsRef.current.phase.uniform() * TAU - Math.PI; // [-π, π)
     }
     function setPhasesZero() {
-        const th = thetaRef.current;
+        const th = sysRef.current.theta;
         for (let i = 0; i < th.length; i++) th[i] = 0;
     }
     function setPhasesLinear() {
-        const th = thetaRef.current;
+        const th = sysRef.current.theta;
         const n = th.length;
         for (let i = 0; i < n; i++) {
             // 0 .. 2π evenly spaced, then wrap to [-π, π]
             const v = (i / n) * TAU;
-            th[i] = Math.atan2(Math.sin(v), Math.cos(v));
+            th[i] = wrapAngle(v);
         }
     }
     function setPhasesTwoCluster(spreadDeg: number) {
-        const th = thetaRef.current;
+        const th = sysRef.current.theta;
         const n = th.length;
         const s = deg2rad(spreadDeg);
         for (let i = 0; i < n; i++) {
             const center = i % 2 === 0 ? 0 : Math.PI; // clusters around 0 and π
-            const jitter = gaussianRandom(0, s);
-            th[i] = Math.atan2(Math.sin(center + jitter), Math.cos(center + jitter));
+            const jitter = streamsRef.current.phase.normal(0, s);
+            th[i] = wrapAngle(center + jitter);
         }
     }
 
@@ -214,13 +298,23 @@ export default function KuramotoLive() {
 
     const chartHostRef = useRef<HTMLDivElement | null>(null);
 
+    // Start the history over with the current phases at t = 0 (a point for Recharts to draw)
+    function seedHistory() {
+        const [z1, ...higher] = daidoOrders(sysRef.current.theta, DAIDO_MAX);
+        const row: Record<string, number> = { r: z1.r, psi: z1.psi };
+        higher.forEach((z, k) => { row[`r${k + 2}`] = z.r; });
+        historyRef.current.clear();
+        historyRef.current.push(0, row);
+    }
+
+    function rSeriesToDelimited(sep: string) {
+        return historyToDelimited(historyRef.current, csvMode, sep);
+    }
     function rSeriesToCSV() {
-        const buf = rBufferRef.current ?? [];
-        return "t,r\n" + buf.map(p => `${p.t},${p.r}`).join("\n");
+        return rSeriesToDelimited(",");
     }
     function rSeriesToTSV() {
-        const buf = rBufferRef.current ?? [];
-        return "t\tr\n" + buf.map(p => `${p.t}\t${p.r}`).join("\n");
+        return rSeriesToDelimited("\t");
     }
 
     async function copyCSV() {
@@ -232,15 +326,7 @@ export default function KuramotoLive() {
     }
 
     function downloadCSV() {
-        const blob = new Blob([rSeriesToCSV()], { type: "text/csv" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = "r_series.csv";
-        document.body.appendChild(a);
-        a.click();
-        a.remove();
-        URL.revokeObjectURL(url);
+        downloadBlob(rSeriesToCSV(), "r_series.csv", "text/csv");
     }
 
     async function copyChartImage() {
@@ -393,32 +479,285 @@ export default function KuramotoLive() {
 
 
     const bumpUI = () => {
-        lastFrameTimeRef.current = 0;
         setChartTick(t => (t + 1) % 1_000_000);
     }
 
-    // Regenerate arrays when N changes
+    // Restart every random sub-stream from the current seed
+    function resetStreams() {
+        streamsRef.current = createStreams(seed);
+        reseedNoiseRef.current = true; // the worker owns the noise stream
+    }
+
+    // ---- Worker ----
+    function post(msg: ToWorker, transfer: Transferable[] = []) {
+        workerRef.current?.postMessage(msg, transfer);
+    }
+
+    // Push the mirror's state to the worker (graph only when it changed: it can be large)
+    function syncWorker(withGraph = false) {
+        const sys = sysRef.current;
+        const theta = sys.theta.slice();
+        const omega = sys.omega.slice();
+        const velocity = sys.velocity.slice();
+        let shared: SharedArrayBuffer | undefined;
+        if (canShareMemory() && sharedRef.current?.length !== sys.N) {
+            shared = new SharedArrayBuffer(sys.N * Float64Array.BYTES_PER_ELEMENT);
+            sharedRef.current = new Float64Array(shared);
+        }
+        post({
+            type: "load",
+            gen: ++genRef.current,
+            state: withGraph ? { theta, omega, velocity, t: sys.t, adj: sys.adj } : { theta, omega, velocity, t: sys.t },
+            noiseSeed: reseedNoiseRef.current ? seed : undefined,
+            shared,
+        }, [theta.buffer, omega.buffer, velocity.buffer]);
+        reseedNoiseRef.current = false;
+    }
+
+    useEffect(() => {
+        const worker = new Worker(new URL("./core/sim.worker.ts", import.meta.url), { type: "module" });
+        worker.onmessage = (e: MessageEvent<FromWorker>) => {
+            const msg = e.data;
+            if (msg.type === "sweep-progress") {
+                if (msg.id !== sweepIdRef.current) return; // cancelled / superseded
+                if (msg.points.length > 0) setSweepPoints(prev => [...prev, ...msg.points]);
+                setSweepProgress(msg.done ? null : msg.progress);
+                return;
+            }
+            if (msg.gen !== genRef.current) return; // computed from state we've replaced since
+            const sys = sysRef.current;
+            const src = msg.theta ?? sharedRef.current;
+            if (src && src.length === sys.N) sys.theta.set(src);
+            if (msg.velocity && msg.velocity.length === sys.N) sys.velocity.set(msg.velocity);
+            sys.t = msg.t;
+            if (recordSpaceTimeRef.current) {
+                phaseHistoryRef.current.push(sys.t, sys.theta);
+                localHistoryRef.current.push(sys.t, localOrder(sys.theta, sys.adj));
+            }
+            if (msg.unwrapped) frequencyWindowRef.current.push(msg.t, msg.unwrapped);
+            if (msg.recorded) trajectoryRef.current.append(msg.recorded);
+            scheduledRef.current = msg.scheduled;
+            if (msg.scheduled) {
+                // keep the mirror's readouts (dθ/dt) on the scheduled values
+                const { K, noise, omega } = msg.scheduled.values;
+                if (K !== undefined) sys.K = K;
+                if (noise !== undefined) sys.noise = noise;
+                if (omega !== undefined) sys.omegaShift = omega;
+            }
+
+            const history = historyRef.current;
+            const s = msg.samples, red = msg.reduced, pops = msg.populations, plv = msg.plv;
+            const rows = s.length / SAMPLE_STRIDE;
+            // r_a and the PLV cover the most recent samples only if they were switched on mid-frame
+            const popFirst = pops ? rows - pops.r.length / pops.count : 0;
+            const plvFirst = plv ? rows - plv.length : 0;
+            for (let k = 0; k < rows; k++) {
+                const row: Record<string, number | undefined> = {};
+                for (let f = 1; f < SAMPLE_STRIDE; f++) row[SAMPLE_FIELDS[f]] = s[k * SAMPLE_STRIDE + f];
+                row.r_oa = red?.[k];
+                row.plv = plv?.[k - plvFirst];
+                const idx = k - popFirst;
+                if (pops && idx >= 0) for (let a = 0; a < pops.count; a++) row[`r_${a + 1}`] = pops.r[idx * pops.count + a];
+                history.push(s[k * SAMPLE_STRIDE], row);
+            }
+
+            // ↓ trigger React re-render for the chart at ~20 Hz of sim time
+            if (s.length > 0 && (sys.t - lastChartUpdateRef.current) > 0.05) {
+                lastChartUpdateRef.current = sys.t;
+                setChartTick(t => (t + 1) % 1_000_000);
+            }
+        };
+        workerRef.current = worker;
+        sharedRef.current = null;
+        setSweepProgress(null);
+        return () => {
+            worker.terminate();
+            workerRef.current = null;
+        };
+    }, []);
+
+    // Regenerate arrays when N or the seed changes
     useEffect(() => {
-        thetaRef.current = new Float64Array(N);
-        omegaRef.current = new Float64Array(N);
+        const pending = pendingSnapshotRef.current;
+        if (pending && pending.theta.length === N) {
+            pendingSnapshotRef.current = null;
+            keepGraphRef.current = true;
+            installSnapshot(pending);
+            return;
+        }
+        sysRef.current.resize(N);
+        resetStreams();
         randomizePhases();
         randomizeFrequencies();
-        adjRef.current = buildAdjacency(topology, N, erProb);
+        rebuildGraph();
         // reset time + chart buffer
-        accRef.current = 0;
-        rBufferRef.current = [];
-        tRef.current = 0;
-        const { r } = computeOrder(thetaRef.current);
-        rBufferRef.current.push({ t: 0, r });
+        syncWorker(true);
+        seedHistory();
         bumpUI();
         draw();
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [N]);
+    }, [N, seed, experimentGen]);
+
+    // The graph/weights streams restart on every build, so the network depends
+    // only on (seed, topology, N, p, weighting)
+    function rebuildGraph() {
+        if (topology === "file") {
+            // imported networks carry their own weights; N follows the file
+            sysRef.current.adj = imported && imported.graph.n === N ? imported.graph : null;
+            return;
+        }
+        const params = {
+            p: erProb, k: ringK, stencil: latticeStencil, beta: wsBeta, m: baM, hubs: starHubs, kernel: ringKernel, radius: ringRadius,
+        };
+        const g = buildAdjacency(topology, N, params, rngStream(seed, "graph"));
+        if (g && weightMode !== "unit") weightEdges(g, weightMode, rngStream(seed, "weights"), repulsiveFrac);
+        sysRef.current.adj = g;
+    }
+
+    // Rebuild adjacency when topology / its parameters / weighting change
+    useEffect(() => {
+        if (keepGraphRef.current) {
+            keepGraphRef.current = false;
+            return;
+        }
+        rebuildGraph();
+        syncWorker(true);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [topology, N, erProb, ringK, ringKernel, ringRadius, latticeStencil, wsBeta, baM, starHubs, imported, seed, weightMode, repulsiveFrac]);
+
+    useEffect(() => {
+        recordSpaceTimeRef.current = showSpaceTime;
+        // fresh buffers: don't splice a stale history onto the new one, and keep
+        // rows × N under ~8M values per buffer so large N stays in memory
+        const capacity = Math.max(10, Math.min(spaceTimeRows, Math.floor(8_000_000 / N)));
+        phaseHistoryRef.current = new SpaceTimeBuffer(capacity);
+        localHistoryRef.current = new SpaceTimeBuffer(capacity);
+    }, [showSpaceTime, spaceTimeRows, N]);
 
-    // Rebuild adjacency when topology / prob changes
     useEffect(() => {
-        adjRef.current = buildAdjacency(topology, N, erProb);
-    }, [topology, N, erProb]);
+        frequencyWindowRef.current.clear();
+        post({ type: "unwrap", enabled: showLocking });
+    }, [showLocking]);
+
+    useEffect(() => {
+        frequencyWindowRef.current.window = lockWindow;
+    }, [lockWindow]);
+
+    const coupling = useMemo<CouplingFunction>(
+        () => couplingMode === "fourier" && fourierCoupling ? fourierCoupling : sakaguchi(deg2rad(alphaDeg), harmonic2),
+        [couplingMode, fourierCoupling, alphaDeg, harmonic2],
+    );
+    const sineCoupling = isPureSine(coupling);
+
+    const populations = useMemo(
+        () => (popCount > 1 ? blockPopulations(N, popMatrix, popCount) : null),
+        [N, popCount, popMatrix],
+    );
+
+    function handlePopCount(P: number) {
+        // keep what's been entered for the populations that survive
+        setPopSpecs(prev => Array.from({ length: P }, (_, a) => prev[a] ?? { kind: "gaussian", center: 0, width: 0.6 }));
+        setPopMatrix(prev => {
+            const old = Math.round(Math.sqrt(prev.length));
+            return Array.from({ length: P * P }, (_, k) => {
+                const a = Math.floor(k / P), b = k % P;
+                return a < old && b < old ? prev[a * old + b] : 1;
+            });
+        });
+        setPopCount(P);
+    }
+
+    function applyChimeraPreset() {
+        // Abrams et al. (2008): two identical groups, stronger self-coupling, α just below π/2
+        const sys = sysRef.current;
+        setModel("kuramoto");
+        setK(1);
+        setCouplingMode("sakaguchi");
+        setAlphaDeg(87);
+        setHarmonic2(0);
+        setPopSpecs([{ kind: "gaussian", center: 0, width: 0 }, { kind: "gaussian", center: 0, width: 0 }]);
+        setPopMatrix([0.65, 0.35, 0.35, 0.65]);
+        setPopCount(2);
+        // group 1 in sync, group 2 scattered (population of i is ⌊2i/N⌋)
+        const phase = streamsRef.current.phase;
+        for (let i = 0; i < sys.N; i++) {
+            sys.theta[i] = 2 * i < sys.N ? 0 : phase.uniform() * TAU - Math.PI;
+        }
+        sys.omega.fill(0);
+        sys.velocity.fill(0);
+        resetChartSeed();
+        bumpUI();
+        draw();
+    }
+
+    function applyFourier() {
+        try {
+            setFourierCoupling(parseFourier(fourierText));
+            setFourierError(null);
+        } catch (err) {
+            setFourierError((err as Error).message);
+        }
+    }
+
+    const forcing = useMemo<Forcing | null>(() => {
+        if (!forceOn) return null;
+        const spec: ForcingTargets = forceTarget === "range" ? { kind: "range", from: forceFrom, to: forceTo }
+            : forceTarget === "fraction" ? { kind: "fraction", p: forceP } : { kind: "all" };
+        return { amplitude: forceF, frequency: forceOmega, targets: forcingTargets(spec, N, rngStream(seed, "forcing")) };
+    }, [forceOn, forceF, forceOmega, forceTarget, forceFrom, forceTo, forceP, N, seed]);
+
+    // Mirror slider values into the engine (and the worker's copy of it)
+    useEffect(() => {
+        sysRef.current.model = model;
+        sysRef.current.mass = mass;
+        sysRef.current.damping = damping;
+        sysRef.current.K = K;
+        sysRef.current.coupling = coupling;
+        sysRef.current.populations = populations;
+        sysRef.current.forcing = forcing;
+        sysRef.current.noise = noise;
+        sysRef.current.method = integrator;
+        sysRef.current.tol = tol;
+        post({ type: "params", params: { model, mass, damping, K, coupling, populations, forcing, noise, method: integrator, tol, dt, speed } });
+        setChartTick(t => (t + 1) % 1_000_000);
+    }, [model, mass, damping, K, coupling, populations, forcing, noise, integrator, tol, dt, speed]);
+
+    useEffect(() => {
+        sysRef.current.pins = activePins;
+        post({ type: "params", params: { pins: activePins } });
+    }, [activePins]);
+
+    function startSchedule() {
+        try {
+            const s = parseSchedule(scheduleText);
+            setScheduleError(null);
+            setSchedule(s);
+            post({ type: "schedule", schedule: s });
+        } catch (err) {
+            setScheduleError((err as Error).message);
+        }
+    }
+
+    // Hand K and σ back to the sliders
+    function stopSchedule() {
+        setSchedule(null);
+        scheduledRef.current = null;
+        post({ type: "schedule", schedule: null });
+        post({ type: "params", params: { K, noise } });
+        Object.assign(sysRef.current, { K, noise, omegaShift: 0 });
+    }
+
+    // Ott–Antonsen reduction exists only for (bi)Lorentzian ω
+    const reducedModel = useMemo<ReducedModel | null>(() => {
+        if (model !== "kuramoto" || !sineCoupling || populations || forcing) return null;
+        if (omegaMode === "cauchy") return { kind: "lorentzian", gamma: cauchyGamma, center: 0 };
+        if (omegaMode === "bimodal") return { kind: "bimodal", gamma: cauchyGamma, offset: bimodalOffset };
+        return null;
+    }, [model, sineCoupling, populations, forcing, omegaMode, cauchyGamma, bimodalOffset]);
+
+    useEffect(() => {
+        post({ type: "reduced", model: showReduced ? reducedModel : null });
+    }, [reducedModel, showReduced]);
 
     useEffect(() => {
         if (omegaMode === "manual") {
@@ -430,11 +769,262 @@ export default function KuramotoLive() {
         setNText(String(N));
     }, [N]);
 
+    useEffect(() => {
+        setSeedText(String(seed));
+    }, [seed]);
+
+    function commitSeedFromText() {
+        const parsed = Number.parseInt(seedText, 10);
+        if (!Number.isFinite(parsed) || parsed < 0) {
+            setSeedText(String(seed));
+            return;
+        }
+        const next = parsed >>> 0; // seeds are uint32
+        if (next !== seed) setSeed(next);
+        setSeedText(String(next));
+    }
+
+    async function handleGraphFile(file: File) {
+        const text = await file.text();
+        const format = importFormat === "auto" ? detectGraphFormat(file.name, text) : importFormat;
+        try {
+            const g = parseGraph(text, format);
+            const n = g.graph.n;
+            if (n < 2 || n > MAX_N) {
+                setImportIssues([{ line: 0, message: `the network has ${n} nodes; N must be between 2 and ${MAX_N}` }]);
+                return;
+            }
+            setImportIssues([]);
+            setImported({ ...g, name: file.name });
+            setN(n);
+        } catch (e) {
+            if (!(e instanceof GraphImportError)) throw e;
+            setImportIssues(e.issues.length > 0 ? e.issues : [{ line: 0, message: "no edges found" }]);
+        }
+    }
+
+    // ---- Experiment files / links ----
+    function currentExperiment(withSeed: boolean): Experiment {
+        const sys = sysRef.current;
+        const g = topology === "file" && imported && imported.graph.n === N ? imported.graph : null;
+        const edges: Array<[number, number, number]> = [];
+        if (g) {
+            for (let i = 0; i < g.n; i++) {
+                for (let k = g.rowPtr[i]; k < g.rowPtr[i + 1]; k++) edges.push([i, g.colIdx[k], g.weight[k]]);
+            }
+        }
+        const manualPhases = phaseText.split(/[\s,]+/).filter(t => t.length > 0).map(Number).filter(Number.isFinite);
+        return {
+            version: EXPERIMENT_VERSION,
+            ...(withSeed ? { seed } : {}),
+            N, K, dt, noise, speed,
+            model: { kind: model, mass, damping },
+            integrator: { method: integrator, tol },
+            coupling: { mode: couplingMode, alphaDeg, harmonic2, fourier: fourierText },
+            omega: {
+                mode: omegaMode as Experiment["omega"]["mode"],
+                gaussStd, cauchyGamma, bimodalOffset, uniRange, powerP, genFraction,
+                ...(omegaMode === "manual" ? { values: Array.from(sys.omega) } : {}),
+            },
+            phases: { mode: phaseMode, clusterSpread, ...(phaseMode === "manual" ? { values: manualPhases } : {}) },
+            topology: savedTopology({
+                kind: topology, erProb, ringK, ringKernel, ringRadius, latticeStencil, wsBeta, baM, starHubs, weightMode, repulsiveFrac,
+                ...(g && imported ? { network: { name: imported.name, n: g.n, edges } } : {}),
+            }),
+            populations: { count: popCount, specs: popSpecs, matrix: popMatrix },
+            forcing: {
+                enabled: forceOn, amplitude: forceF, frequency: forceOmega,
+                targets: forceTarget === "range" ? { kind: "range", from: forceFrom, to: forceTo }
+                    : forceTarget === "fraction" ? { kind: "fraction", p: forceP } : { kind: "all" },
+            },
+            protocol: scheduleText,
+        };
+    }
+
+    // Set every control from a validated experiment; the N/seed effect then rebuilds the system
+    function applyExperiment(exp: Experiment) {
+        setRunning(false);
+        if (schedule) stopSchedule();
+        setPins([]);
+        setHighlighted(null);
+        setN(exp.N);
+        if (exp.seed !== undefined) setSeed(exp.seed);
+        setK(exp.K);
+        setDt(exp.dt);
+        setNoise(exp.noise);
+        setSpeed(exp.speed);
+        setModel(exp.model.kind);
+        setMass(exp.model.mass);
+        setDamping(exp.model.damping);
+        setIntegrator(exp.integrator.method);
+        setTol(exp.integrator.tol);
+        setCouplingMode(exp.coupling.mode);
+        setAlphaDeg(exp.coupling.alphaDeg);
+        setHarmonic2(exp.coupling.harmonic2);
+        setFourierText(exp.coupling.fourier);
+        setFourierCoupling(exp.coupling.mode === "fourier" ? parseFourier(exp.coupling.fourier) : null);
+        setFourierError(null);
+        const w = exp.omega;
+        setOmegaMode(w.mode);
+        setGaussStd(w.gaussStd);
+        setCauchyGamma(w.cauchyGamma);
+        setBimodalOffset(w.bimodalOffset);
+        setUniRange(w.uniRange);
+        setPowerP(w.powerP);
+        setGenFraction(w.genFraction);
+        if (w.values) setOmegaText(w.values.join(", "));
+        setPhaseMode(exp.phases.mode);
+        setClusterSpread(exp.phases.clusterSpread);
+        if (exp.phases.values) setPhaseText(exp.phases.values.join(", "));
+        const tp = exp.topology;
+        setTopology(tp.kind);
+        setErProb(tp.erProb);
+        setRingK(tp.ringK);
+        setRingKernel(tp.ringKernel);
+        setRingRadius(tp.ringRadius);
+        setLatticeStencil(tp.latticeStencil);
+        setWsBeta(tp.wsBeta);
+        setBaM(tp.baM);
+        setStarHubs(tp.starHubs);
+        setWeightMode(tp.weightMode);
+        setRepulsiveFrac(tp.repulsiveFrac);
+        if (tp.network) {
+            const edges = new EdgeList();
+            for (const [i, j, wt] of tp.network.edges) edges.add(i, j, wt);
+            const labels = Array.from({ length: tp.network.n }, (_, i) => String(i));
+            setImported({ graph: toCsr(tp.network.n, edges), labels, format: "edgelist", name: tp.network.name });
+            setImportIssues([]);
+        }
+        setPopCount(exp.populations.count);
+        setPopSpecs(exp.populations.specs);
+        setPopMatrix(exp.populations.matrix);
+        const f = exp.forcing;
+        setForceOn(f.enabled);
+        setForceF(f.amplitude);
+        setForceOmega(f.frequency);
+        setForceTarget(f.targets.kind);
+        if (f.targets.kind === "range") {
+            setForceFrom(f.targets.from);
+            setForceTo(f.targets.to);
+        } else if (f.targets.kind === "fraction") {
+            setForceP(f.targets.p);
+        }
+        setScheduleText(exp.protocol);
+        setScheduleError(null);
+        setExperimentGen(g => g + 1);
+    }
+
+    function loadExperiment(read: () => Experiment | null) {
+        try {
+            const exp = read();
+            if (!exp) return;
+            applyExperiment(exp);
+            setExperimentIssues([]);
+        } catch (e) {
+            if (!(e instanceof ExperimentError)) throw e;
+            setExperimentIssues(e.issues);
+        }
+    }
+
+    async function handleExperimentFile(file: File) {
+        const text = await file.text();
+        loadExperiment(() => parseExperiment(text));
+    }
+
+    function saveExperiment() {
+        downloadBlob(JSON.stringify(currentExperiment(includeSeed), null, 2), "experiment.json", "application/json");
+    }
+
+    // The link lives in the hash, so it never reaches a server
+    async function copyExperimentLink() {
+        history.replaceState(null, "", experimentToHash(currentExperiment(includeSeed)));
+        await navigator.clipboard.writeText(location.href);
+    }
+
+    // Opened from a shared link
+    useEffect(() => {
+        loadExperiment(() => experimentFromHash(location.hash));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // ---- Snapshots ----
+    function installSnapshot(snap: Snapshot) {
+        historyRef.current = restoreSnapshot(sysRef.current, snap);
+        syncWorker(true);
+        frequencyWindowRef.current.clear();
+        lastChartUpdateRef.current = snap.t;
+        bumpUI();
+        draw();
+    }
+
+    // A snapshot of another size goes through the N change
+    function handleRestoreSnapshot(k: number) {
+        const snap = snapshots[k];
+        if (snap.theta.length === N) {
+            installSnapshot(snap);
+            return;
+        }
+        pendingSnapshotRef.current = snap;
+        setN(snap.theta.length);
+    }
+
+    function exportSnapshot(k: number) {
+        const snap = snapshots[k];
+        downloadBlob(snapshotToJSON(snap), `${snap.name.replace(/[^\w.-]+/g, "_")}.json`, "application/json");
+    }
+
+    async function importSnapshots(files: File[]) {
+        const loaded: Snapshot[] = [];
+        for (const file of files) {
+            try {
+                const snap = parseSnapshot(await file.text());
+                if (snap.theta.length < 2 || snap.theta.length > MAX_N) throw new Error(`N must be between 2 and ${MAX_N}`);
+                loaded.push(snap);
+            } catch (err) {
+                setSnapshotError(`${file.name}: ${(err as Error).message}`);
+                return;
+            }
+        }
+        setSnapshotError(null);
+        setSnapshots(prev => [...prev, ...loaded]);
+    }
+
+    // ---- Trajectory recorder ----
+    function startRecording() {
+        post({ type: "record", options: { interval: recordInterval, drift: recordDrift } });
+        setRecording(true);
+    }
+
+    function stopRecording() {
+        post({ type: "record", options: null });
+        setRecording(false);
+    }
+
+    function exportTrajectory(format: TrajectoryFormat) {
+        const store = trajectoryRef.current;
+        if (format === "csv") downloadBlob(new Blob(trajectoryToCSV(store), { type: "text/csv" }), "trajectory.csv");
+        else if (format === "npz") downloadBlob(new Blob(trajectoryToNpz(store)), "trajectory.npz");
+        else downloadBlob(new Blob(trajectoryToZarr(store, { interval: recordInterval, dt })), "trajectory.zarr.zip");
+    }
+
+    function startSweep(options: SweepOptions) {
+        sweepIdRef.current++;
+        setSweepPoints([]);
+        setSweepProgress(0);
+        post({ type: "sweep", id: sweepIdRef.current, options });
+    }
+
+    function cancelSweep() {
+        sweepIdRef.current++;
+        setSweepProgress(null);
+        post({ type: "sweep-cancel" });
+    }
+
     function commitNFromText() {
         // allow empty to stay empty until user confirms or blurs
         if (nText.trim() === "") return;
         const parsed = Number.parseInt(nText, 10);
-        const clamped = clamp(Number.isFinite(parsed) ? parsed : N, 2, 2000);
+        const clamped = clamp(Number.isFinite(parsed) ? parsed : N, 2, MAX_N);
         if (clamped !== N) setN(clamped);
         setNText(String(clamped));  // normalize display
 
@@ -461,6 +1051,7 @@ export default function KuramotoLive() {
 
     // Helpers to initialize
     function randomizePhases() {
+        sysRef.current.velocity.fill(0); // new initial condition starts at rest
         switch (phaseMode) {
             case "uniform":
                 setPhasesUniform();
@@ -482,34 +1073,37 @@ export default function KuramotoLive() {
 
 
     function randomizeFrequencies() {
-        const w = omegaRef.current;
-        if (omegaMode === "gaussian") {
-            for (let i = 0; i < w.length; i++) w[i] = gaussianRandom(0, gaussStd);
+        const w = sysRef.current.omega;
+        const rng = streamsRef.current.omega;
+        if (populations && populations.of.length === w.length) {
+            for (let i = 0; i < w.length; i++) w[i] = sampleFrequency(popSpecs[populations.of[i]], rng);
+        } else if (omegaMode === "gaussian") {
+            for (let i = 0; i < w.length; i++) w[i] = rng.normal(0, gaussStd);
         } else if (omegaMode === "cauchy") {
-            for (let i = 0; i < w.length; i++) w[i] = cauchyRandom(0, cauchyGamma);
+            for (let i = 0; i < w.length; i++) w[i] = rng.cauchy(0, cauchyGamma);
+        } else if (omegaMode === "bimodal") {
+            for (let i = 0; i < w.length; i++) w[i] = rng.cauchy(rng.uniform() < 0.5 ? -bimodalOffset : bimodalOffset, cauchyGamma);
         } else if (omegaMode === "uniform") {
-            for (let i = 0; i < w.length; i++) w[i] = (Math.random() * 2 - 1) * uniRange;
+            for (let i = 0; i < w.length; i++) w[i] = (rng.uniform() * 2 - 1) * uniRange;
+        } else if (omegaMode === "power") {
+            // random generators inject +P; consumers share the load so Σ P = 0
+            const n = w.length;
+            const nGen = clamp(Math.round(genFraction * n), 1, n - 1);
+            const idx = Array.from({ length: n }, (_, i) => i);
+            for (let i = n - 1; i > 0; i--) {
+                const j = Math.floor(rng.uniform() * (i + 1));
+                [idx[i], idx[j]] = [idx[j], idx[i]];
+            }
+            const load = (powerP * nGen) / (n - nGen);
+            for (let k = 0; k < n; k++) w[idx[k]] = k < nGen ? powerP : -load;
         } else {
             applyManualOmega(omegaText);
         }
         bumpUI();
     }
 
-    // ---- Core math: order parameter ----
-    function computeOrder(th: Float64Array) {
-        let cx = 0, sx = 0;
-        for (let i = 0; i < th.length; i++) {
-            cx += Math.cos(th[i]);
-            sx += Math.sin(th[i]);
-        }
-        cx /= th.length; sx /= th.length;
-        const r = Math.hypot(cx, sx);
-        const psi = Math.atan2(sx, cx);
-        return { r, psi };
-    }
-
     function formatOmegaList(): string {
-        const w = omegaRef.current;
+        const w = sysRef.current.omega;
         const max = Math.min(w.length, 2000);
         const arr: string[] = new Array(max);
         for (let i = 0; i < max; i++) arr[i] = w[i].toString();
@@ -523,7 +1117,7 @@ export default function KuramotoLive() {
             .filter(t => t.length > 0)
             .map(Number)
             .filter(Number.isFinite);
-        const w = omegaRef.current;
+        const w = sysRef.current.omega;
         const n = w.length;
         if (tokens.length === 0) {
             // If no valid numbers, zero out
@@ -536,101 +1130,17 @@ export default function KuramotoLive() {
         }
     }
 
-    function instantaneousDrift(th: Float64Array): Float64Array {
-        const w = omegaRef.current;
-        const adj = adjRef.current; // null => all-to-all
-        const out = new Float64Array(th.length);
-
-        const { r, psi } = computeOrder(th);
-
-        if (adj === null) {
-            // all-to-all: K * r * sin(psi - theta_i)
-            for (let i = 0; i < th.length; i++) {
-                out[i] = (w?.[i] ?? 0) + K * r * Math.sin(psi - th[i]);
-            }
-        } else {
-            // graph: (K/deg(i)) * Σ_j sin(θ_j - θ_i)
-            for (let i = 0; i < th.length; i++) {
-                const nbrs = adj[i] ?? [];
-                let s = 0;
-                for (let k = 0; k < nbrs.length; k++) {
-                    const j = nbrs[k];
-                    s += Math.sin(th[j] - th[i]);
-                }
-                const coupling = nbrs.length > 0 ? (K / nbrs.length) * s : 0;
-                out[i] = (w?.[i] ?? 0) + coupling;
-            }
-        }
-        return out;
-    }
-
-
-
-    // ---- Integrator ----
-    function stepSimulation(h: number) {
-        const th = thetaRef.current;
-        const w = omegaRef.current;
-        const adj = adjRef.current; // null => all-to-all fast path
-
-        const { r, psi } = computeOrder(th);
-
-        // precompute noise
-        const eta = noise > 0 ? () => gaussianRandom(0, noise) : () => 0;
-
-        if (adj === null) {
-            // All-to-all using order-parameter trick: sum_j sin(th_j - th_i) = N * r * sin(psi - th_i)
-            const Nloc = th.length;
-            for (let i = 0; i < Nloc; i++) {
-                const coupling = K * r * Math.sin(psi - th[i]);
-                th[i] = th[i] + h * (w[i] + coupling) + Math.sqrt(h) * eta();
-            }
-        } else {
-            // General graph
-            const Nloc = th.length;
-            for (let i = 0; i < Nloc; i++) {
-                let s = 0;
-                const nbrs = adj[i];
-                for (let k = 0; k < nbrs.length; k++) {
-                    const j = nbrs[k];
-                    s += Math.sin(th[j] - th[i]);
-                }
-                const coupling = nbrs.length > 0 ? (K / nbrs.length) * s : 0;
-                th[i] = th[i] + h * (w[i] + coupling) + Math.sqrt(h) * eta();
-            }
-        }
-
-        // keep phases in [-pi, pi] for numeric stability
-        for (let i = 0; i < th.length; i++) {
-            if (th[i] > Math.PI || th[i] < -Math.PI) th[i] = Math.atan2(Math.sin(th[i]), Math.cos(th[i]));
-        }
-
-        // record order parameter
-        tRef.current += h;
-        const pt = { t: tRef.current, r };
-        const buf = rBufferRef.current;
-        buf.push(pt);
-        if (buf.length > 600) buf.shift();
-    }
-
     // ---- Render: Canvas ----
     function draw() {
         const canvas = canvasRef.current;
         if (!canvas) return;
-        const dpr = window.devicePixelRatio || 1;
-        const w = canvas.clientWidth * dpr;
-        const h = canvas.clientHeight * dpr;
+        const { dpr, w, h, cx, cy, R } = circleGeometry(canvas);
         if (canvas.width !== w || canvas.height !== h) {
             canvas.width = w; canvas.height = h;
         }
         const ctx = canvas.getContext("2d");
         ctx.clearRect(0, 0, w, h);
 
-        // circle geometry
-        const size = Math.min(w, h);
-        const R = size * 0.38;
-        const cx = w * 0.5;
-        const cy = h * 0.5;
-
         // outer circle
         ctx.lineWidth = 2 * dpr;
         ctx.globalAlpha = 1;
@@ -638,7 +1148,7 @@ export default function KuramotoLive() {
         ctx.arc(cx, cy, R, 0, Math.PI * 2);
         ctx.stroke();
 
-        const th = thetaRef.current;
+        const th = sysRef.current.theta;
 
         // centroid / order parameter
         const { r, psi } = computeOrder(th);
@@ -655,16 +1165,58 @@ export default function KuramotoLive() {
             ctx.restore();
         }
 
-        // draw points
+        // draw points, one colour per population
         const pointR = clamp(4 * dpr, 2 * dpr, 6 * dpr);
-        ctx.beginPath();
-        for (let i = 0; i < th.length; i++) {
-            const x = cx + R * Math.cos(th[i]);
-            const y = cy + R * Math.sin(th[i]);
-            ctx.moveTo(x + pointR, y);
-            ctx.arc(x, y, pointR, 0, Math.PI * 2);
+        const pops = sysRef.current.populations;
+        const of = pops && pops.of.length === th.length ? pops.of : null;
+        const groups = of && pops ? pops.count : 1;
+        for (let a = 0; a < groups; a++) {
+            ctx.save();
+            if (of) ctx.fillStyle = POPULATION_COLORS[a];
+            ctx.beginPath();
+            for (let i = 0; i < th.length; i++) {
+                if (of && of[i] !== a) continue;
+                const x = cx + R * Math.cos(th[i]);
+                const y = cy + R * Math.sin(th[i]);
+                ctx.moveTo(x + pointR, y);
+                ctx.arc(x, y, pointR, 0, Math.PI * 2);
+            }
+            ctx.fill();
+            ctx.restore();
+        }
+
+        // pinned oscillators: fixed phase or pacemaker
+        if (activePins.length > 0) {
+            ctx.save();
+            ctx.strokeStyle = "#7c3aed";
+            ctx.lineWidth = 2 * dpr;
+            ctx.beginPath();
+            for (const { index } of activePins) {
+                const x = cx + R * Math.cos(th[index]);
+                const y = cy + R * Math.sin(th[index]);
+                ctx.moveTo(x + pointR + 2 * dpr, y);
+                ctx.arc(x, y, pointR + 2 * dpr, 0, Math.PI * 2);
+            }
+            ctx.stroke();
+            ctx.restore();
+        }
+
+        // oscillator picked in the per-oscillator table or on the canvas
+        if (highlighted !== null && highlighted < th.length) {
+            const x = cx + R * Math.cos(th[highlighted]);
+            const y = cy + R * Math.sin(th[highlighted]);
+            ctx.save();
+            ctx.strokeStyle = "#f59e0b";
+            ctx.lineWidth = 3 * dpr;
+            ctx.beginPath();
+            ctx.arc(x, y, pointR + 4 * dpr, 0, Math.PI * 2);
+            ctx.stroke();
+            ctx.fillStyle = "#b45309";
+            ctx.font = `${12 * dpr}px ui-sans-serif`;
+            ctx.textAlign = "center";
+            ctx.fillText(String(highlighted), x, y - pointR - 8 * dpr);
+            ctx.restore();
         }
-        ctx.fill();
 
         if (showLabels && th.length <= 100) {
             ctx.font = `${12 * dpr}px ui-sans-serif`;
@@ -678,58 +1230,90 @@ export default function KuramotoLive() {
         }
     }
 
-    // ---- RAF Loop ----
-    useEffect(() => {
-        if (!running) return;
-        const loop = (now: number) => {
-            const last = lastFrameTimeRef.current;
-            lastFrameTimeRef.current = now;
+    // ---- Canvas picking: click selects, drag sets the phase ----
+    function pointerPhase(e: React.PointerEvent<HTMLCanvasElement>) {
+        const canvas = e.currentTarget;
+        const geo = circleGeometry(canvas);
+        const rect = canvas.getBoundingClientRect();
+        const x = (e.clientX - rect.left) * geo.dpr, y = (e.clientY - rect.top) * geo.dpr;
+        return { x, y, phase: Math.atan2(y - geo.cy, x - geo.cx), geo };
+    }
 
-            let elapsed = (now - last) / 1000; // seconds
-            if (!isFinite(elapsed) || elapsed > 0.5) elapsed = 0; // guard large jumps
+    function handleCanvasDown(e: React.PointerEvent<HTMLCanvasElement>) {
+        const { x, y, geo: { dpr, cx, cy, R } } = pointerPhase(e);
+        const th = sysRef.current.theta;
+        // nearest dot within a few pixels; later (drawn on top) wins ties
+        let best = -1, bestD = (10 * dpr) ** 2;
+        for (let i = 0; i < th.length; i++) {
+            const d = (cx + R * Math.cos(th[i]) - x) ** 2 + (cy + R * Math.sin(th[i]) - y) ** 2;
+            if (d <= bestD) {
+                best = i;
+                bestD = d;
+            }
+        }
+        if (best < 0) {
+            setHighlighted(null);
+            return;
+        }
+        setHighlighted(best);
+        setDragging(best);
+        e.currentTarget.setPointerCapture(e.pointerId);
+    }
 
-            accRef.current += elapsed * speed;
+    function handleCanvasMove(e: React.PointerEvent<HTMLCanvasElement>) {
+        if (dragging === null || dragging >= sysRef.current.N) return;
+        const phase = pointerPhase(e).phase;
+        sysRef.current.theta[dragging] = phase;
+        // the dragged oscillator is pinned (activePins), so the worker holds it there between moves
+        post({ type: "phase", index: dragging, theta: phase });
+        draw();
+    }
 
-            const fixed = dt;
-            let steps = 0;
-            while (accRef.current >= fixed && steps < 5000) {
-                stepSimulation(fixed);
-                accRef.current -= fixed;
-                steps++;
-            }
+    function handleCanvasUp(e: React.PointerEvent<HTMLCanvasElement>) {
+        if (dragging === null) return;
+        setDragging(null);
+        e.currentTarget.releasePointerCapture(e.pointerId);
+    }
 
-            // ↓ trigger React re-render for the chart at ~20 Hz of sim time
-            if (steps > 0 && (tRef.current - lastChartUpdateRef.current) > 0.05) {
-                lastChartUpdateRef.current = tRef.current;
-                setChartTick(t => (t + 1) % 1_000_000);
-            }
+    function setPin(i: number, pin: Pin | null) {
+        setPins(prev => {
+            const rest = prev.filter(p => p.index !== i);
+            return pin ? [...rest, pin] : rest;
+        });
+    }
 
-            draw();
+    // ---- RAF Loop: the worker integrates, we only draw ----
+    useEffect(() => {
+        post(running ? { type: "run" } : { type: "pause" });
+        if (!running) return;
+        const loop = () => {
+            drawRef.current();
             rafRef.current = requestAnimationFrame(loop);
         };
 
         rafRef.current = requestAnimationFrame(loop);
         return () => cancelAnimationFrame(rafRef.current);
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [running, dt, speed, K, noise]);
+    }, [running]);
 
-    // Ensure a draw on param tweaks even when paused
-    useEffect(() => { draw(); });
+    // Ensure a draw on param tweaks even when paused; the RAF loop always
+    // calls the latest draw() so toggles and picks show up while running
+    useEffect(() => {
+        drawRef.current = draw;
+        draw();
+    });
 
     // ---- Controls actions ----
     function handleReset() {
         setRunning(false);
+        // replay the seed from the start so Reset reproduces the same run
+        resetStreams();
         randomizePhases();
         randomizeFrequencies();
 
         // reset sim + chart
-        tRef.current = 0;
-        accRef.current = 0;
-        rBufferRef.current = [];
-
-        // seed first point so Recharts has data
-        const { r } = computeOrder(thetaRef.current);
-        rBufferRef.current.push({ t: 0, r });
+        sysRef.current.t = 0;
+        syncWorker();
+        seedHistory();
         lastChartUpdateRef.current = 0;
         setChartTick(t => (t + 1) % 1_000_000);
 
@@ -740,11 +1324,9 @@ export default function KuramotoLive() {
         randomizePhases();
 
         // reset graph too
-        tRef.current = 0;
-        accRef.current = 0;
-        rBufferRef.current = [];
-        const { r } = computeOrder(thetaRef.current);
-        rBufferRef.current.push({ t: 0, r });
+        sysRef.current.t = 0;
+        syncWorker();
+        seedHistory();
         lastChartUpdateRef.current = 0;
         setChartTick(t => (t + 1) % 1_000_000);
 
@@ -753,11 +1335,9 @@ export default function KuramotoLive() {
 
     function resetChartSeed() {
         // reset sim clock & chart buffer and seed a point at t=0
-        tRef.current = 0;
-        accRef.current = 0;
-        rBufferRef.current = [];
-        const { r } = computeOrder(thetaRef.current);
-        rBufferRef.current.push({ t: 0, r });
+        sysRef.current.t = 0;
+        syncWorker();
+        seedHistory();
         lastChartUpdateRef.current = 0; // so the next loop can bump the chart
         setChartTick(t => (t + 1) % 1_000_000); // force a render now
     }
@@ -768,12 +1348,138 @@ export default function KuramotoLive() {
         draw();
     }
 
-    // Build chart data memoized
+    // Mean-field predictions for the chosen ω distribution (none for manual ω)
+    const theory = useMemo(() => {
+        if (!sineCoupling || populations) return null; // predictions below are for one population with H = sin Δ
+        let dist: OmegaDistribution;
+        if (omegaMode === "gaussian") dist = { kind: "gaussian", std: gaussStd };
+        else if (omegaMode === "cauchy") dist = { kind: "cauchy", gamma: cauchyGamma };
+        else if (omegaMode === "uniform") dist = { kind: "uniform", halfRange: uniRange };
+        else return null;
+        const Kc = criticalCoupling(dist);
+        return {
+            Kc,
+            rInf: steadyStateR(dist, K),
+            // theory assumes N → ∞, all-to-all and no noise
+            exact: model === "kuramoto" && topology === "all" && noise === 0 && !forcing,
+        };
+    }, [sineCoupling, populations, model, omegaMode, gaussStd, cauchyGamma, uniRange, K, topology, noise, forcing]);
+
+    // Label the recent R_i profile (time-averaged to smooth out the drifting nodes)
+    const classification = useMemo(
+        () => (showSpaceTime && localHistoryRef.current.size > 0 ? classifyCoherence(localHistoryRef.current.mean(50)) : null),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [showSpaceTime, chartTick],
+    );
+
+    const effectiveFrequencies = useMemo(
+        () => (showLocking ? frequencyWindowRef.current.effective() : null),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [showLocking, chartTick],
+    );
+    const lockingClusters = useMemo(
+        () => (effectiveFrequencies ? frequencyClusters(effectiveFrequencies, Math.max(0, lockTol)) : null),
+        [effectiveFrequencies, lockTol],
+    );
+    // cluster index per oscillator (largest first), -1 for drifting ones
+    const clusterOf = useMemo(() => {
+        if (!lockingClusters || effectiveFrequencies?.length !== N) return null;
+        const out = new Int32Array(N).fill(-1);
+        lockingClusters.forEach((c, k) => {
+            if (c.members.length > 1) for (const i of c.members) out[i] = k;
+        });
+        return out;
+    }, [lockingClusters, effectiveFrequencies, N]);
+
+    // Zoomed window while it still overlaps the data (Reset starts a new run), else null => whole run
+    const chartRange = useMemo(() => {
+        const h = historyRef.current;
+        return chartView && chartView.from < h.end && chartView.to > h.start ? chartView : null;
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [chartView, chartTick]);
+
+    // Protocol events inside the charted time range: ramps shaded, steps as lines
+    const scheduleMarks = useMemo(() => {
+        const start = scheduledRef.current?.start;
+        const h = historyRef.current;
+        if (!schedule || start === undefined || h.size === 0) return [];
+        const t0 = chartRange?.from ?? h.start, t1 = chartRange?.to ?? h.end;
+        const names = { K: "K", noise: "σ", omega: "Δω" };
+        return schedule
+            .map(e => ({
+                x1: start + e.t,
+                x2: start + e.t + e.duration,
+                label: e.duration > 0 ? `${names[e.param]} ${e.from}→${e.to}` : `${names[e.param]}=${e.to}`,
+            }))
+            .filter(m => m.x2 >= t0 && m.x1 <= t1)
+            .map(m => ({ ...m, x1: Math.max(m.x1, t0), x2: Math.min(m.x2, t1) }));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [schedule, chartTick, chartRange]);
+
+    // Chart rows: bin means at their centre, plus r's min–max where samples were merged
     const chartData = useMemo(
-        () => rBufferRef.current.map(p => ({ t: p.t, r: p.r })),
-        [chartTick] // re-render chart when we bump the tick
+        () => historyRef.current.view(chartRange?.from ?? -Infinity, chartRange?.to ?? Infinity, CHART_POINTS).map(b => {
+            const row: Record<string, number | [number, number]> = { t: (b.t0 + b.t1) / 2 };
+            for (const name in b.series) row[name] = statMean(b.series[name]);
+            if (b.count > 1 && b.series.r) row.r_band = [b.series.r.min, b.series.r.max];
+            return row;
+        }),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [chartTick, chartRange] // re-render chart when we bump the tick
     );
 
+    // ---- Chart zoom (wheel) and pan (drag) over the whole run ----
+    const sideAxes = Number(orderLines.psi) + Number(orderLines.dpsi);
+
+    function plotFraction(host: HTMLElement, clientX: number) {
+        const rect = host.getBoundingClientRect();
+        const right = CHART_INSET.right + sideAxes * SIDE_AXIS_WIDTH;
+        const f = (clientX - rect.left - CHART_INSET.left) / Math.max(1, rect.width - CHART_INSET.left - right);
+        return Math.min(1, Math.max(0, f));
+    }
+
+    // Keep a window inside the run; null once it covers all of it
+    function fitView(from: number, to: number) {
+        const h = historyRef.current;
+        const span = Math.max(to - from, Math.min(h.end - h.start, 20 * dt));
+        if (!(span < h.end - h.start)) return null;
+        const a = Math.min(h.end - span, Math.max(h.start, from)); // not clamp(): that one rounds to integers
+        return { from: a, to: a + span };
+    }
+
+    useEffect(() => {
+        const host = chartHostRef.current;
+        if (!host) return;
+        const onWheel = (e: WheelEvent) => {
+            const h = historyRef.current;
+            if (!(h.end > h.start)) return;
+            e.preventDefault(); // zoom instead of scrolling the page
+            const f = plotFraction(host, e.clientX);
+            setChartView(v => {
+                const { from, to } = v ?? { from: h.start, to: h.end };
+                const at = from + f * (to - from), span = (to - from) * (e.deltaY > 0 ? 1.25 : 0.8);
+                return fitView(at - f * span, at + (1 - f) * span);
+            });
+        };
+        host.addEventListener("wheel", onWheel, { passive: false });
+        return () => host.removeEventListener("wheel", onWheel);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [dt, sideAxes]);
+
+    function handleChartDown(e: React.PointerEvent<HTMLDivElement>) {
+        if (!chartRange) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        panRef.current = { x: e.clientX, view: chartRange };
+    }
+
+    function handleChartMove(e: React.PointerEvent<HTMLDivElement>) {
+        const pan = panRef.current;
+        if (!pan) return;
+        const dx = plotFraction(e.currentTarget, e.clientX) - plotFraction(e.currentTarget, pan.x);
+        const shift = -dx * (pan.view.to - pan.view.from);
+        setChartView(fitView(pan.view.from + shift, pan.view.to + shift));
+    }
+
 
 
 
@@ -803,8 +1509,28 @@ export default function KuramotoLive() {
                                 </div>
                             </div>
                             <div className="w-full h-[420px] rounded-2xl border">
-                                <canvas ref={canvasRef} className="w-full h-full"/>
+                                <canvas
+                                    ref={canvasRef}
+                                    className={`w-full h-full touch-none ${dragging !== null ? "cursor-grabbing" : "cursor-pointer"}`}
+                                    onPointerDown={handleCanvasDown}
+                                    onPointerMove={handleCanvasMove}
+                                    onPointerUp={handleCanvasUp}
+                                    onPointerCancel={handleCanvasUp}
+                                />
                             </div>
+                            {highlighted !== null && highlighted < N && (
+                                <OscillatorInspector
+                                    index={highlighted}
+                                    theta={wrapAngle(sysRef.current.theta[highlighted])}
+                                    omega={sysRef.current.omega[highlighted]}
+                                    drift={sysRef.current.drift()[highlighted]}
+                                    pin={pins.find(p => p.index === highlighted)}
+                                    onPinChange={(pin) => setPin(highlighted, pin)}
+                                    pinCount={pins.length}
+                                    onUnpinAll={() => setPins([])}
+                                    onClose={() => setHighlighted(null)}
+                                />
+                            )}
                         </CardContent>
                     </Card>
 
@@ -817,7 +1543,15 @@ export default function KuramotoLive() {
                                 </div>
 
                                 {/* --- Export / Copy toolbar --- */}
-                                <div className="flex gap-2">
+                                <div className="flex gap-2 items-center">
+                                    <div className="flex items-center gap-2 mr-2">
+                                        <Switch checked={showTheory} onCheckedChange={setShowTheory} id="theory" disabled={!theory} />
+                                        <Label htmlFor="theory">Theory</Label>
+                                    </div>
+                                    <div className="flex items-center gap-2 mr-2" title="Ott–Antonsen reduced ODE, (bi)Lorentzian ω only">
+                                        <Switch checked={showReduced} onCheckedChange={setShowReduced} id="reduced" disabled={!reducedModel} />
+                                        <Label htmlFor="reduced">OA</Label>
+                                    </div>
                                     <Button size="sm" variant="outline" onClick={copyChartImage}>
                                         Copy chart image
                                     </Button>
@@ -833,18 +1567,137 @@ export default function KuramotoLive() {
                                 </div>
                             </div>
 
-                            <div className="w-full h-64" ref={chartHostRef}>
+                            <div
+                                className={`w-full h-64 touch-none ${chartRange ? "cursor-grab" : ""}`}
+                                ref={chartHostRef}
+                                onPointerDown={handleChartDown}
+                                onPointerMove={handleChartMove}
+                                onPointerUp={() => { panRef.current = null; }}
+                                onPointerCancel={() => { panRef.current = null; }}
+                            >
                                 <ResponsiveContainer width="100%" height="100%">
-                                    <LineChart data={chartData} margin={{ top: 5, right: 20, left: 5, bottom: 5 }}>
-                                        <XAxis dataKey="t" tickFormatter={(v) => v.toFixed(1)} label={{ value: "t", position: "insideRight", offset: -2, dy: 12}} />
+                                    <ComposedChart data={chartData} margin={{ top: 5, right: CHART_INSET.right, left: 5, bottom: 5 }}>
+                                        <XAxis dataKey="t" type="number" domain={chartRange ? [chartRange.from, chartRange.to] : ["dataMin", "dataMax"]}
+                                               allowDataOverflow tickFormatter={(v) => v.toFixed(1)} label={{ value: "t", position: "insideRight", offset: -2, dy: 12}} />
                                         <YAxis domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} />
-                                        <Tooltip formatter={(v, n) => [Number(v).toFixed(3), n]} labelFormatter={(v) => `t=${v.toFixed(2)}`} />
-                                        <Line type="monotone" dataKey="r" dot={false} strokeWidth={2} isAnimationActive={false} />
-                                    </LineChart>
+                                        {orderLines.psi && (
+                                            <YAxis yAxisId="psi" orientation="right" width={SIDE_AXIS_WIDTH} domain={["auto", "auto"]}
+                                                   tickFormatter={(v) => v.toFixed(0)} label={{ value: "ψ", angle: 0, position: "insideTopRight" }} />
+                                        )}
+                                        {orderLines.dpsi && (
+                                            <YAxis yAxisId="dpsi" orientation="right" width={SIDE_AXIS_WIDTH} domain={["auto", "auto"]}
+                                                   tickFormatter={(v) => v.toFixed(1)} label={{ value: "dψ/dt", angle: 0, position: "insideTopRight" }} />
+                                        )}
+                                        <Tooltip formatter={(v, n) => [Array.isArray(v) ? v.map(x => Number(x).toFixed(3)).join(" … ") : Number(v).toFixed(3), n]}
+                                                 labelFormatter={(v) => `t=${v.toFixed(2)}`} />
+                                        <Area name="r min–max" type="monotone" dataKey="r_band" stroke="none" fill="#64748b" fillOpacity={0.2}
+                                              isAnimationActive={false} />
+                                        <Line name="r" type="monotone" dataKey="r" dot={false} strokeWidth={2} isAnimationActive={false} />
+                                        {showReduced && reducedModel && (
+                                            <Line name="r (OA)" type="monotone" dataKey="r_oa" dot={false} stroke="#f59e0b" strokeWidth={2}
+                                                strokeDasharray="5 3" isAnimationActive={false} connectNulls />
+                                        )}
+                                        {scheduleMarks.map((m, k) => m.x2 > m.x1 ? (
+                                            <ReferenceArea key={k} x1={m.x1} x2={m.x2} fill="#6366f1" fillOpacity={0.08} ifOverflow="hidden"
+                                                label={{ value: m.label, position: "insideTopLeft", fontSize: 11 }} />
+                                        ) : (
+                                            <ReferenceLine key={k} x={m.x1} stroke="#6366f1" strokeDasharray="3 3"
+                                                label={{ value: m.label, position: "insideTopLeft", fontSize: 11 }} />
+                                        ))}
+                                        {forcing && (
+                                            <Line name="PLV (drive)" type="monotone" dataKey="plv" dot={false} stroke="#db2777" strokeWidth={1.5}
+                                                isAnimationActive={false} connectNulls />
+                                        )}
+                                        {orderLines.r2 && (
+                                            <Line name="r₂" type="monotone" dataKey="r2" dot={false} stroke="#0d9488" strokeWidth={1.5}
+                                                isAnimationActive={false} />
+                                        )}
+                                        {orderLines.daido && Array.from({ length: DAIDO_MAX - 2 }, (_, k) => (
+                                            <Line key={k} name={`r${k + 3} (Daido)`} type="monotone" dataKey={`r${k + 3}`} dot={false}
+                                                stroke="#0d9488" strokeOpacity={0.6 - 0.2 * k} strokeDasharray="4 2" strokeWidth={1.5}
+                                                isAnimationActive={false} />
+                                        ))}
+                                        {orderLines.psi && (
+                                            <Line name="ψ (unwrapped)" yAxisId="psi" type="monotone" dataKey="psi" dot={false} stroke="#7c3aed"
+                                                strokeWidth={1.5} isAnimationActive={false} />
+                                        )}
+                                        {orderLines.dpsi && (
+                                            <Line name="dψ/dt" yAxisId="dpsi" type="monotone" dataKey="dpsi" dot={false} stroke="#ea580c"
+                                                strokeWidth={1} isAnimationActive={false} connectNulls />
+                                        )}
+                                        {popCount > 1 && Array.from({ length: popCount }, (_, a) => (
+                                            <Line key={a} name={`r${a + 1}`} type="monotone" dataKey={`r_${a + 1}`} dot={false}
+                                                stroke={POPULATION_COLORS[a]} strokeWidth={1.5} isAnimationActive={false} />
+                                        ))}
+                                        {showTheory && theory && (theory.rInf > 0 ? (
+                                            <ReferenceLine y={theory.rInf} stroke="#16a34a" strokeDasharray="6 4"
+                                                label={{ value: `r∞ = ${theory.rInf.toFixed(3)}`, position: "insideTopRight", fontSize: 12 }} />
+                                        ) : (
+                                            <ReferenceLine y={1 / Math.sqrt(N)} stroke="#94a3b8" strokeDasharray="6 4"
+                                                label={{ value: "1/√N (incoherent)", position: "insideTopRight", fontSize: 12 }} />
+                                        ))}
+                                    </ComposedChart>
                                 </ResponsiveContainer>
                             </div>
+                            <div className="flex flex-wrap items-center gap-3 mt-2 text-sm">
+                                <span className="text-muted-foreground tabular-nums">
+                                    {chartRange ? `t = ${chartRange.from.toFixed(1)} … ${chartRange.to.toFixed(1)}` : "Whole run"} · wheel to zoom, drag to pan
+                                </span>
+                                <Button size="sm" variant="ghost" disabled={!chartRange} onClick={() => setChartView(null)}>Whole run</Button>
+                                {([["psi", "ψ"], ["dpsi", "dψ/dt"], ["r2", "r₂"], ["daido", "r₃, r₄"]] as [OrderLine, string][]).map(([key, label]) => (
+                                    <div key={key} className="flex items-center gap-1.5">
+                                        <Switch id={`line-${key}`} checked={orderLines[key]}
+                                                onCheckedChange={(v) => setOrderLines(o => ({ ...o, [key]: v }))} />
+                                        <Label htmlFor={`line-${key}`}>{label}</Label>
+                                    </div>
+                                ))}
+                                <div className="ml-auto flex items-center gap-2">
+                                    <Label>CSV / TSV</Label>
+                                    <Select value={csvMode} onValueChange={(v) => setCsvMode(v as "raw" | "decimated")}>
+                                        <SelectTrigger className="w-56">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="raw">Recent samples (full resolution)</SelectItem>
+                                            <SelectItem value="decimated">Whole run (mean / min / max bins)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                            {showTheory && theory && !theory.exact && (
+                                <small className="text-muted-foreground block mt-1">
+                                    Theory lines assume the first-order model with N → ∞, all-to-all coupling and zero noise; expect deviations here.
+                                </small>
+                            )}
                         </CardContent>
                     </Card>
+
+                    {showSpaceTime && (
+                        <SpaceTimeCard
+                            buffer={spaceTimeQuantity === "phase" ? phaseHistoryRef.current : localHistoryRef.current}
+                            tick={chartTick}
+                            quantity={spaceTimeQuantity}
+                            onQuantityChange={setSpaceTimeQuantity}
+                            rows={spaceTimeRows}
+                            onRowsChange={setSpaceTimeRows}
+                            classification={classification}
+                        />
+                    )}
+
+                    {showLocking && (
+                        <LockingCard
+                            omega={sysRef.current.omega}
+                            omegaEff={effectiveFrequencies}
+                            clusters={lockingClusters}
+                            tol={lockTol}
+                            onTolChange={setLockTol}
+                            span={frequencyWindowRef.current.span}
+                            averaging={lockWindow}
+                            onAveragingChange={setLockWindow}
+                        />
+                    )}
+
+                    <SweepCard dt={dt} Kc={showTheory ? theory?.Kc ?? null : null} points={sweepPoints} progress={sweepProgress} onStart={startSweep} onCancel={cancelSweep} />
                 </div>
 
                 {/* Right: Controls */}
@@ -859,6 +1712,8 @@ export default function KuramotoLive() {
                                     className="col-span-4"
                                     inputMode="numeric"
                                     pattern="[0-9]*"
+                                    disabled={topology === "file" && imported !== null}
+                                    title={topology === "file" && imported !== null ? "N is set by the imported network" : undefined}
                                     value={nText}
                                     onChange={(e) => {
                                         // allow empty while typing; no commit yet
@@ -877,14 +1732,90 @@ export default function KuramotoLive() {
                                 />
                             </div>
 
+                            <div className="grid grid-cols-7 items-center gap-3">
+                                <Label className="col-span-3">Seed</Label>
+                                <div className="col-span-4 flex gap-2">
+                                    <Input
+                                        inputMode="numeric"
+                                        pattern="[0-9]*"
+                                        value={seedText}
+                                        onChange={(e) => setSeedText(e.currentTarget.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === "Enter") commitSeedFromText();
+                                        }}
+                                        onBlur={commitSeedFromText}
+                                        title="Same seed + same settings reproduces ω, θ₀, the graph and the noise exactly"
+                                    />
+                                    <Button variant="outline" size="icon" onClick={() => setSeed(randomSeed())} title="New random seed">
+                                        <Dices className="w-4 h-4"/>
+                                    </Button>
+                                </div>
+                            </div>
+
                             <div className="grid gap-2">
                                 <div className="flex justify-between items-center">
                                     <Label>Coupling K</Label>
-                                    <span className="text-sm tabular-nums">{K.toFixed(2)}</span>
+                                    <span className="text-sm tabular-nums">
+                                        {theory && (
+                                            <span className="text-muted-foreground mr-2" title="Mean-field onset of synchrony, 2/(π g(0))">
+                                                K<sub>c</sub> ≈ {theory.Kc.toFixed(2)}
+                                            </span>
+                                        )}
+                                        {K.toFixed(2)}
+                                    </span>
                                 </div>
                                 <Slider value={[K]} min={0} max={5} step={0.01} onValueChange={(v) => setK(v[0])} />
                             </div>
 
+                            <div className="grid grid-cols-7 items-center gap-3">
+                                <Label className="col-span-3">Coupling H(Δ)</Label>
+                                <Select value={couplingMode} onValueChange={(v) => setCouplingMode(v as "sakaguchi" | "fourier")}>
+                                    <SelectTrigger className="col-span-4">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="sakaguchi">sin(Δ − α) + b·sin 2Δ</SelectItem>
+                                        <SelectItem value="fourier">Fourier series</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {couplingMode === "sakaguchi" && (
+                                <>
+                                    <div className="grid gap-2">
+                                        <div className="flex justify-between items-center">
+                                            <Label>Phase lag α (deg)</Label>
+                                            <span className="text-sm tabular-nums">{alphaDeg.toFixed(0)}°</span>
+                                        </div>
+                                        <Slider value={[alphaDeg]} min={-180} max={180} step={1} onValueChange={(v) => setAlphaDeg(v[0])} />
+                                    </div>
+                                    <div className="grid gap-2">
+                                        <div className="flex justify-between items-center">
+                                            <Label>2nd harmonic b</Label>
+                                            <span className="text-sm tabular-nums">{harmonic2.toFixed(2)}</span>
+                                        </div>
+                                        <Slider value={[harmonic2]} min={-2} max={2} step={0.05} onValueChange={(v) => setHarmonic2(v[0])} />
+                                    </div>
+                                </>
+                            )}
+
+                            {couplingMode === "fourier" && (
+                                <div className="grid gap-2">
+                                    <Label>H(Δ) = Σ aₘ sin(mΔ) + bₘ cos(mΔ), one “m a b” per line</Label>
+                                    <textarea
+                                        className="w-full h-24 rounded-md border px-2 py-1 font-mono text-sm"
+                                        value={fourierText}
+                                        onChange={(e) => setFourierText(e.target.value)}
+                                        placeholder={"1 1 0\n2 0.5 0"}
+                                    />
+                                    <Button variant="outline" onClick={applyFourier}>Apply series</Button>
+                                    {fourierError && <small className="text-destructive font-mono">{fourierError}</small>}
+                                    {!fourierCoupling && !fourierError && (
+                                        <small className="text-muted-foreground">Not applied yet — still using sin(Δ − α) + b·sin 2Δ.</small>
+                                    )}
+                                </div>
+                            )}
+
                             <div className="grid gap-2">
                                 <div className="flex justify-between items-center">
                                     <Label>Time step dt</Label>
@@ -893,6 +1824,78 @@ export default function KuramotoLive() {
                                 <Slider value={[dt]} min={0.001} max={0.1} step={0.001} onValueChange={(v) => setDt(v[0])} />
                             </div>
 
+                            <div className="grid grid-cols-7 items-center gap-3">
+                                <Label className="col-span-3">Model</Label>
+                                <Select value={model} onValueChange={(v) => setModel(v as ModelName)}>
+                                    <SelectTrigger className="col-span-4">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {MODELS.map(m => (
+                                            <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {model === "inertial" && (
+                                <>
+                                    <div className="grid gap-2">
+                                        <div className="flex justify-between items-center">
+                                            <Label>Inertia m</Label>
+                                            <span className="text-sm tabular-nums">{mass.toFixed(2)}</span>
+                                        </div>
+                                        <Slider value={[mass]} min={0.05} max={5} step={0.05} onValueChange={(v) => setMass(v[0])} />
+                                    </div>
+                                    <div className="grid gap-2">
+                                        <div className="flex justify-between items-center">
+                                            <Label>Damping d</Label>
+                                            <span className="text-sm tabular-nums">{damping.toFixed(2)}</span>
+                                        </div>
+                                        <Slider value={[damping]} min={0} max={5} step={0.05} onValueChange={(v) => setDamping(v[0])} />
+                                    </div>
+                                    <small className="text-muted-foreground">
+                                        m θ″ᵢ + d θ′ᵢ = Pᵢ + coupling; the ω values below are the powers Pᵢ.
+                                    </small>
+                                </>
+                            )}
+
+                            <div className="grid grid-cols-7 items-center gap-3">
+                                <Label className="col-span-3">Integrator</Label>
+                                <Select value={integrator} onValueChange={(v) => setIntegrator(v as IntegratorName)}>
+                                    <SelectTrigger className="col-span-4">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {INTEGRATORS.map(m => (
+                                            <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {integrator === "rk45" && (
+                                <div className="grid grid-cols-7 items-center gap-3">
+                                    <Label className="col-span-3">Error tolerance</Label>
+                                    <Select value={String(tol)} onValueChange={(v) => setTol(Number(v))}>
+                                        <SelectTrigger className="col-span-4">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {[1e-3, 1e-4, 1e-6, 1e-8, 1e-10].map(v => (
+                                                <SelectItem key={v} value={String(v)}>{v.toExponential(0)}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+
+                            {noise > 0 && integrator !== "euler" && (
+                                <small className="text-muted-foreground">
+                                    Noise σ &gt; 0: integrating the SDE with stochastic Heun.
+                                </small>
+                            )}
+
                             <div className="grid gap-2">
                                 <div className="flex justify-between items-center">
                                     <Label>Sim speed ×</Label>
@@ -909,16 +1912,77 @@ export default function KuramotoLive() {
                                 <Slider value={[noise]} min={0} max={1.5} step={0.01} onValueChange={(v) => setNoise(v[0])} />
                             </div>
 
+                            <div className="flex items-center gap-2">
+                                <Switch checked={forceOn} onCheckedChange={setForceOn} id="forcing" />
+                                <Label htmlFor="forcing">External drive F sin(Ωt − θ<sub>i</sub>)</Label>
+                            </div>
+                            {forceOn && (
+                                <>
+                                    <div className="grid gap-2">
+                                        <div className="flex justify-between items-center">
+                                            <Label>Amplitude F</Label>
+                                            <span className="text-sm tabular-nums">{forceF.toFixed(2)}</span>
+                                        </div>
+                                        <Slider value={[forceF]} min={0} max={5} step={0.05} onValueChange={(v) => setForceF(v[0])} />
+                                    </div>
+                                    <div className="grid gap-2">
+                                        <div className="flex justify-between items-center">
+                                            <Label>Drive frequency Ω</Label>
+                                            <span className="text-sm tabular-nums">{forceOmega.toFixed(2)}</span>
+                                        </div>
+                                        <Slider value={[forceOmega]} min={-5} max={5} step={0.05} onValueChange={(v) => setForceOmega(v[0])} />
+                                    </div>
+                                    <div className="grid grid-cols-7 items-center gap-3">
+                                        <Label className="col-span-3">Driven oscillators</Label>
+                                        <Select value={forceTarget} onValueChange={(v) => setForceTarget(v as ForcingTargets["kind"])}>
+                                            <SelectTrigger className="col-span-4">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="all">All</SelectItem>
+                                                <SelectItem value="range">Index range</SelectItem>
+                                                <SelectItem value="fraction">Random fraction</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    {forceTarget === "range" && (
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <NumberField label="From i" value={forceFrom} onChange={setForceFrom} step="1" />
+                                            <NumberField label="To i" value={forceTo} onChange={setForceTo} step="1" />
+                                        </div>
+                                    )}
+                                    {forceTarget === "fraction" && (
+                                        <div className="grid gap-2">
+                                            <div className="flex justify-between items-center">
+                                                <Label>Fraction p</Label>
+                                                <span className="text-sm tabular-nums">{forceP.toFixed(2)}</span>
+                                            </div>
+                                            <Slider value={[forceP]} min={0} max={1} step={0.01} onValueChange={(v) => setForceP(v[0])} />
+                                        </div>
+                                    )}
+                                    <small className="text-muted-foreground">
+                                        The chart adds the phase-locking value |⟨e<sup>i(θ<sub>i</sub> − Ωt)</sup>⟩| of the driven oscillators,
+                                        averaged over ~10 s. A single oscillator entrains when |Ω − ω<sub>i</sub>| &lt; F.
+                                    </small>
+                                </>
+                            )}
+
                             <div className="grid grid-cols-7 items-center gap-3">
                                 <Label className="col-span-3">Topology</Label>
-                                <Select value={topology} onValueChange={setTopology}>
+                                <Select value={topology} onValueChange={(v) => setTopology(v as Topology | "file")}>
                                     <SelectTrigger className="col-span-4">
                                         <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
                                         <SelectItem value="all">All-to-all</SelectItem>
-                                        <SelectItem value="ring">Ring (2-neighbor)</SelectItem>
+                                        <SelectItem value="ring">Ring (k-nearest)</SelectItem>
+                                        <SelectItem value="nonlocal">Nonlocal ring (kernel)</SelectItem>
                                         <SelectItem value="er">Erdős–Rényi</SelectItem>
+                                        <SelectItem value="lattice">2D periodic lattice</SelectItem>
+                                        <SelectItem value="ws">Small-world (Watts–Strogatz)</SelectItem>
+                                        <SelectItem value="ba">Scale-free (Barabási–Albert)</SelectItem>
+                                        <SelectItem value="star">Star / hub-and-spoke</SelectItem>
+                                        <SelectItem value="file">Import from file…</SelectItem>
                                     </SelectContent>
                                 </Select>
                             </div>
@@ -933,6 +1997,163 @@ export default function KuramotoLive() {
                                 </div>
                             )}
 
+                            {(topology === "ring" || topology === "ws") && (
+                                <div className="grid gap-2">
+                                    <div className="flex justify-between items-center">
+                                        <Label>Neighbours k</Label>
+                                        <span className="text-sm tabular-nums">{ringK}</span>
+                                    </div>
+                                    <Slider value={[ringK]} min={2} max={Math.max(2, Math.min(50, N - 1 - ((N - 1) % 2)))} step={2} onValueChange={(v) => setRingK(v[0])} />
+                                </div>
+                            )}
+
+                            {topology === "nonlocal" && (
+                                <div className="grid gap-2">
+                                    <div className="grid grid-cols-7 items-center gap-3">
+                                        <Label className="col-span-3">Kernel</Label>
+                                        <Select value={ringKernel} onValueChange={(v) => setRingKernel(v as RingKernel)}>
+                                            <SelectTrigger className="col-span-4">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="exp">Exponential e^(−d/R)</SelectItem>
+                                                <SelectItem value="step">Step (d ≤ R)</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="flex justify-between items-center">
+                                        <Label>Radius R (sites)</Label>
+                                        <span className="text-sm tabular-nums">{ringRadius}</span>
+                                    </div>
+                                    <Slider value={[ringRadius]} min={1} max={Math.max(1, Math.min(200, Math.floor(N / 2)))} step={1} onValueChange={(v) => setRingRadius(v[0])} />
+                                </div>
+                            )}
+
+                            {topology === "ws" && (
+                                <div className="grid gap-2">
+                                    <div className="flex justify-between items-center">
+                                        <Label>Rewiring prob β</Label>
+                                        <span className="text-sm tabular-nums">{wsBeta.toFixed(3)}</span>
+                                    </div>
+                                    <Slider value={[wsBeta]} min={0} max={1} step={0.005} onValueChange={(v) => setWsBeta(v[0])} />
+                                </div>
+                            )}
+
+                            {topology === "lattice" && (
+                                <div className="grid gap-2">
+                                    <div className="grid grid-cols-7 items-center gap-3">
+                                        <Label className="col-span-3">Stencil</Label>
+                                        <Select value={String(latticeStencil)} onValueChange={(v) => setLatticeStencil(v === "8" ? 8 : 4)}>
+                                            <SelectTrigger className="col-span-4">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="4">4-neighbour (von Neumann)</SelectItem>
+                                                <SelectItem value="8">8-neighbour (Moore)</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    {(() => {
+                                        const { cols, rows } = latticeDims(N);
+                                        return (
+                                            <small className="text-muted-foreground">
+                                                {rows} × {cols} grid{rows * cols !== N && " (last row incomplete: use a square N for a perfect torus)"}
+                                            </small>
+                                        );
+                                    })()}
+                                </div>
+                            )}
+
+                            {topology === "ba" && (
+                                <div className="grid gap-2">
+                                    <div className="flex justify-between items-center">
+                                        <Label>Edges per new node m</Label>
+                                        <span className="text-sm tabular-nums">{baM}</span>
+                                    </div>
+                                    <Slider value={[baM]} min={1} max={Math.max(1, Math.min(20, N - 1))} step={1} onValueChange={(v) => setBaM(v[0])} />
+                                </div>
+                            )}
+
+                            {topology === "star" && (
+                                <div className="grid gap-2">
+                                    <div className="flex justify-between items-center">
+                                        <Label>Hubs</Label>
+                                        <span className="text-sm tabular-nums">{starHubs}</span>
+                                    </div>
+                                    <Slider value={[starHubs]} min={1} max={Math.max(1, Math.min(20, N))} step={1} onValueChange={(v) => setStarHubs(v[0])} />
+                                </div>
+                            )}
+
+                            {topology === "file" && (
+                                <div className="grid gap-2">
+                                    <div className="grid grid-cols-7 items-center gap-3">
+                                        <Label className="col-span-3">File format</Label>
+                                        <Select value={importFormat} onValueChange={(v) => setImportFormat(v as GraphFormat | "auto")}>
+                                            <SelectTrigger className="col-span-4">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="auto">Detect</SelectItem>
+                                                <SelectItem value="edgelist">Edge list (i j [w])</SelectItem>
+                                                <SelectItem value="matrix">Adjacency matrix CSV</SelectItem>
+                                                <SelectItem value="graphml">GraphML</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <Input
+                                        type="file"
+                                        accept=".txt,.csv,.tsv,.edges,.el,.graphml,.xml"
+                                        onChange={(e) => {
+                                            const file = e.currentTarget.files?.[0];
+                                            if (file) void handleGraphFile(file);
+                                            e.currentTarget.value = ""; // allow re-loading the same file
+                                        }}
+                                    />
+                                    {imported && importIssues.length === 0 && (
+                                        <small className="text-muted-foreground">
+                                            {imported.name}: {imported.graph.n} nodes, {edgeCount(imported.graph)} directed edges ({imported.format})
+                                        </small>
+                                    )}
+                                    {!imported && importIssues.length === 0 && (
+                                        <small className="text-muted-foreground">No network loaded yet — using all-to-all.</small>
+                                    )}
+                                    {importIssues.length > 0 && (
+                                        <ul className="text-sm text-destructive font-mono">
+                                            {importIssues.slice(0, 10).map((iss, k) => (
+                                                <li key={k}>{iss.line > 0 ? `line ${iss.line}: ` : ""}{iss.message}</li>
+                                            ))}
+                                            {importIssues.length > 10 && <li>… and {importIssues.length - 10} more</li>}
+                                        </ul>
+                                    )}
+                                </div>
+                            )}
+
+                            {topology !== "all" && topology !== "file" && (
+                                <div className="grid grid-cols-7 items-center gap-3">
+                                    <Label className="col-span-3">Edge weights</Label>
+                                    <Select value={weightMode} onValueChange={(v) => setWeightMode(v as WeightMode)}>
+                                        <SelectTrigger className="col-span-4">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="unit">Unit (unweighted)</SelectItem>
+                                            <SelectItem value="random">Random U(0, 1]</SelectItem>
+                                            <SelectItem value="signed">Signed ±1 (repulsive edges)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+
+                            {topology !== "all" && topology !== "file" && weightMode === "signed" && (
+                                <div className="grid gap-2">
+                                    <div className="flex justify-between items-center">
+                                        <Label>Repulsive fraction q</Label>
+                                        <span className="text-sm tabular-nums">{repulsiveFrac.toFixed(2)}</span>
+                                    </div>
+                                    <Slider value={[repulsiveFrac]} min={0} max={1} step={0.01} onValueChange={(v) => setRepulsiveFrac(v[0])} />
+                                </div>
+                            )}
+
                             <div className="grid grid-cols-7 items-center gap-3">
                                 <Label className="col-span-3">ω distribution</Label>
                                 <Select value={omegaMode} onValueChange={setOmegaMode}>
@@ -942,12 +2163,20 @@ export default function KuramotoLive() {
                                     <SelectContent>
                                         <SelectItem value="gaussian">Gaussian(0, σ)</SelectItem>
                                         <SelectItem value="cauchy">Lorentz/Cauchy(0, γ)</SelectItem>
+                                        <SelectItem value="bimodal">Bimodal Lorentz(±ω₀, γ)</SelectItem>
                                         <SelectItem value="uniform">Uniform[-a, a]</SelectItem>
+                                        <SelectItem value="power">Generators / consumers (±P)</SelectItem>
                                         <SelectItem value="manual">Manual (paste list)</SelectItem>
                                     </SelectContent>
                                 </Select>
                             </div>
 
+                            {popCount > 1 && (
+                                <small className="text-muted-foreground">
+                                    With {popCount} populations, ω is drawn from each population's own distribution (Populations card).
+                                </small>
+                            )}
+
                             {omegaMode === "gaussian" && (
                                 <div className="grid gap-2">
                                     <div className="flex justify-between items-center">
@@ -959,13 +2188,22 @@ export default function KuramotoLive() {
                                 </div>
                             )}
 
-                            {omegaMode === "cauchy" && (
+                            {(omegaMode === "cauchy" || omegaMode === "bimodal") && (
                                 <div className="grid gap-2">
                                     <div className="flex justify-between items-center">
                                         <Label>γ (scale)</Label>
                                         <span className="text-sm tabular-nums">{cauchyGamma.toFixed(2)}</span>
                                     </div>
                                     <Slider value={[cauchyGamma]} min={0.05} max={2.5} step={0.05} onValueChange={(v) => setCauchyGamma(v[0])} />
+                                    {omegaMode === "bimodal" && (
+                                        <>
+                                            <div className="flex justify-between items-center">
+                                                <Label>ω₀ (peak offset)</Label>
+                                                <span className="text-sm tabular-nums">{bimodalOffset.toFixed(2)}</span>
+                                            </div>
+                                            <Slider value={[bimodalOffset]} min={0} max={3} step={0.05} onValueChange={(v) => setBimodalOffset(v[0])} />
+                                        </>
+                                    )}
                                     <Button variant="outline" onClick={handleReseedFrequencies} className="mt-1">Resample ω</Button>
                                 </div>
                             )}
@@ -981,6 +2219,25 @@ export default function KuramotoLive() {
                                 </div>
                             )}
 
+                            {omegaMode === "power" && (
+                                <div className="grid gap-2">
+                                    <div className="flex justify-between items-center">
+                                        <Label>Generator power P</Label>
+                                        <span className="text-sm tabular-nums">{powerP.toFixed(2)}</span>
+                                    </div>
+                                    <Slider value={[powerP]} min={0.05} max={3} step={0.05} onValueChange={(v) => setPowerP(v[0])} />
+                                    <div className="flex justify-between items-center">
+                                        <Label>Generator fraction</Label>
+                                        <span className="text-sm tabular-nums">{genFraction.toFixed(2)}</span>
+                                    </div>
+                                    <Slider value={[genFraction]} min={0.05} max={0.95} step={0.05} onValueChange={(v) => setGenFraction(v[0])} />
+                                    <small className="text-muted-foreground">
+                                        Consumers draw −P·n<sub>gen</sub>/n<sub>cons</sub> each, so the grid is balanced (Σ P = 0).
+                                    </small>
+                                    <Button variant="outline" onClick={handleReseedFrequencies} className="mt-1">Resample ω</Button>
+                                </div>
+                            )}
+
                             {omegaMode === "manual" && (
                                 <div className="grid gap-2">
                                     <Label>ω list (N = {N})</Label>
@@ -996,11 +2253,9 @@ export default function KuramotoLive() {
                                             onClick={() => {
                                                 applyManualOmega(omegaText);
                                                 // reset chart time so the change is reflected from t=0 (match your other flows)
-                                                tRef.current = 0;
-                                                accRef.current = 0;
-                                                rBufferRef.current = [];
-                                                const { r } = computeOrder(thetaRef.current);
-                                                rBufferRef.current.push({ t: 0, r });
+                                                sysRef.current.t = 0;
+                                                syncWorker();
+                                                seedHistory();
                                                 lastChartUpdateRef.current = 0;
                                                 setChartTick(t => (t + 1) % 1_000_000);
                                                 draw();
@@ -1066,16 +2321,14 @@ export default function KuramotoLive() {
                                                 applyManualTheta(phaseText);
                                                 if (resetOnPhaseApply) {
                                                     // match your chart reset semantics
-                                                    tRef.current = 0;
-                                                    accRef.current = 0;
-                                                    rBufferRef.current = [];
-                                                    const { r } = computeOrder(thetaRef.current);
-                                                    rBufferRef.current.push({ t: 0, r });
+                                                    sysRef.current.t = 0;
+                                                    syncWorker();
+                                                    seedHistory();
                                                     lastChartUpdateRef.current = 0;
                                                     setChartTick(t => (t + 1) % 1_000_000);
                                                 } else {
                                                     // at least nudge UI
-                                                    lastFrameTimeRef.current = 0;
+                                                    syncWorker();
                                                     setChartTick(t => (t + 1) % 1_000_000);
                                                 }
                                                 draw();
@@ -1105,15 +2358,13 @@ export default function KuramotoLive() {
                                     onClick={() => {
                                         randomizePhases();
                                         if (resetOnPhaseApply) {
-                                            tRef.current = 0;
-                                            accRef.current = 0;
-                                            rBufferRef.current = [];
-                                            const { r } = computeOrder(thetaRef.current);
-                                            rBufferRef.current.push({ t: 0, r });
+                                            sysRef.current.t = 0;
+                                            syncWorker();
+                                            seedHistory();
                                             lastChartUpdateRef.current = 0;
                                             setChartTick(t => (t + 1) % 1_000_000);
                                         } else {
-                                            lastFrameTimeRef.current = 0;
+                                            syncWorker();
                                             setChartTick(t => (t + 1) % 1_000_000);
                                         }
                                         draw();
@@ -1134,9 +2385,82 @@ export default function KuramotoLive() {
                                     <Label htmlFor="labels">Index labels</Label>
                                 </div>
                             </div>
+                            <div className="flex items-center gap-2">
+                                <Switch checked={showSpaceTime} onCheckedChange={setShowSpaceTime} id="spacetime" />
+                                <Label htmlFor="spacetime">Space–time plot &amp; chimera detection</Label>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Switch checked={showLocking} onCheckedChange={setShowLocking} id="locking" />
+                                <Label htmlFor="locking">Frequency locking (⟨dθ/dt⟩ vs ω)</Label>
+                            </div>
                         </CardContent>
                     </Card>
 
+                    <ExperimentCard
+                        includeSeed={includeSeed}
+                        onIncludeSeedChange={setIncludeSeed}
+                        onSave={saveExperiment}
+                        onLoad={(file) => void handleExperimentFile(file)}
+                        onCopyLink={copyExperimentLink}
+                        issues={experimentIssues}
+                    />
+
+                    <SnapshotsCard
+                        snapshots={snapshots}
+                        onTake={(name) => setSnapshots(prev => [...prev, takeSnapshot(sysRef.current, historyRef.current, name)])}
+                        onRestore={handleRestoreSnapshot}
+                        onExport={exportSnapshot}
+                        onDelete={(k) => setSnapshots(prev => prev.filter((_, j) => j !== k))}
+                        onImport={(files) => void importSnapshots(files)}
+                        error={snapshotError}
+                    />
+
+                    <RecorderCard
+                        recording={recording}
+                        interval={recordInterval}
+                        onIntervalChange={setRecordInterval}
+                        drift={recordDrift}
+                        onDriftChange={setRecordDrift}
+                        onStart={startRecording}
+                        onStop={stopRecording}
+                        onClear={() => {
+                            trajectoryRef.current.clear();
+                            bumpUI();
+                        }}
+                        onExport={exportTrajectory}
+                        stats={{
+                            rows: trajectoryRef.current.rows,
+                            width: trajectoryRef.current.width,
+                            from: trajectoryRef.current.rows > 0 ? trajectoryRef.current.time(0) : 0,
+                            to: trajectoryRef.current.rows > 0 ? trajectoryRef.current.time(trajectoryRef.current.rows - 1) : 0,
+                            bytes: trajectoryRef.current.bytes,
+                        }}
+                    />
+
+                    <ProtocolCard
+                        text={scheduleText}
+                        onTextChange={setScheduleText}
+                        error={scheduleError}
+                        status={schedule && scheduledRef.current ? {
+                            elapsed: sysRef.current.t - scheduledRef.current.start,
+                            end: scheduleEnd(schedule),
+                            values: scheduledRef.current.values,
+                        } : null}
+                        onStart={startSchedule}
+                        onStop={stopSchedule}
+                    />
+
+                    <PopulationsCard
+                        count={popCount}
+                        specs={popSpecs}
+                        matrix={popMatrix}
+                        onCountChange={handlePopCount}
+                        onSpecChange={(a, spec) => setPopSpecs(prev => prev.map((p, k) => (k === a ? spec : p)))}
+                        onMatrixChange={(a, b, v) => setPopMatrix(prev => prev.map((x, k) => (k === a * popCount + b ? v : x)))}
+                        onResample={handleReseedFrequencies}
+                        onChimeraPreset={applyChimeraPreset}
+                    />
+
                     <Card className="shadow-xl">
                         <CardContent className="p-4 text-sm leading-relaxed space-y-3">
                             {/* Header with toggle */}
@@ -1151,55 +2475,23 @@ export default function KuramotoLive() {
                             {/* CONTENT: only one of these renders, but both live inside the same CardContent */}
                             {perOscView ? (
                                 /* ------- Per-oscillator view ------- */
-                                (() => {
-                                    const nShow = Math.min(N, 5);
-                                    return (
-                                        <div className="mt-1">
-                                            <div className="text-muted-foreground mb-1">
-                                                Per oscillator (i = 0…{nShow - 1})
-                                            </div>
-
-                                            <div className="grid grid-cols-3 gap-4">
-                                                {/* ω column */}
-                                                <div>
-                                                    <div className="font-semibold mb-1">ω (natural)</div>
-                                                    <ul className="list-disc list-inside font-mono">
-                                                        {omegaList.map((v, i) => (
-                                                            <li key={`w-${i}`}>i={i}: <br /> {fmt(v, 2)}</li>
-                                                        ))}
-                                                    </ul>
-                                                </div>
-
-                                                {/* dθ/dt column */}
-                                                <div>
-                                                    <div className="font-semibold mb-1">dθ/dt</div>
-                                                    <ul className="list-disc list-inside font-mono">
-                                                        {dthetaList.map((v, i) => (
-                                                            <li key={`dth-${i}`}>i={i}: {fmt(rad2deg(v), 2)}°/s</li>
-                                                        ))}
-                                                    </ul>
-                                                </div>
-
-                                                {/* θ column */}
-                                                <div>
-                                                    <div className="font-semibold mb-1">θ</div>
-                                                    <ul className="list-disc list-inside font-mono">
-                                                        {thetaList.map((v, i) => (
-                                                            <li key={`th-${i}`}>
-                                                                i={i}: {fmt(rad2deg(v), 2)}°
-                                                            </li>
-                                                        ))}
-                                                    </ul>
-                                                </div>
-                                            </div>
-                                        </div>
-                                    );
-                                })()
+                                driftNow && (
+                                    <OscillatorTable
+                                        omega={sysRef.current.omega}
+                                        theta={sysRef.current.theta}
+                                        drift={driftNow}
+                                        degree={degrees}
+                                        cluster={clusterOf}
+                                        tick={chartTick}
+                                        highlighted={highlighted}
+                                        onSelect={setHighlighted}
+                                    />
+                                )
                             ) : (
                                 /* ------- Aggregate view: degrees-only, vertical list ------- */
                                 (() => {
-                                    const { psi } = computeOrder(thetaRef.current);
-                                    const w = omegaRef.current;
+                                    const { psi } = computeOrder(sysRef.current.theta);
+                                    const w = sysRef.current.omega;
                                     const { mean, std, min, max } = omegaSummary(w, w.length);
 
                                     return (
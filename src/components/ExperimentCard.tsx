@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { FileJson } from "lucide-react";
+import type { ExperimentIssue } from "@/core/experiment";
+
+interface ExperimentCardProps {
+    includeSeed: boolean;
+    onIncludeSeedChange: (v: boolean) => void;
+    onSave: () => void;
+    onLoad: (file: File) => void;
+    onCopyLink: () => Promise<void>;
+    issues: ExperimentIssue[]; // from the last file or link that failed to load
+}
+
+// Save / load the whole setup as a versioned JSON file or a link
+export default function ExperimentCard({ includeSeed, onIncludeSeedChange, onSave, onLoad, onCopyLink, issues }: ExperimentCardProps) {
+    const [copied, setCopied] = useState<"ok" | "failed" | null>(null);
+
+    async function copy() {
+        try {
+            await onCopyLink();
+            setCopied("ok");
+        } catch {
+            setCopied("failed");
+        }
+    }
+
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-4 grid gap-3">
+                <div className="flex items-center gap-2">
+                    <FileJson className="w-5 h-5"/>
+                    <h3 className="text-lg font-semibold">Experiment</h3>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={onSave}>Save JSON</Button>
+                    <Button size="sm" variant="outline" onClick={() => void copy()}>Copy link</Button>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Switch id="exp-seed" checked={includeSeed} onCheckedChange={onIncludeSeedChange}/>
+                    <Label htmlFor="exp-seed">Include seed (reproduce the exact run)</Label>
+                </div>
+                <Input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => {
+                        const file = e.currentTarget.files?.[0];
+                        if (file) onLoad(file);
+                        e.currentTarget.value = ""; // allow re-loading the same file
+                    }}
+                />
+                {copied && (
+                    <small className={copied === "ok" ? "text-muted-foreground" : "text-destructive"}>
+                        {copied === "ok" ? "Link copied; the address bar holds it too." : "Couldn't reach the clipboard; copy the address bar instead."}
+                    </small>
+                )}
+                {issues.length > 0 && (
+                    <ul className="text-sm text-destructive font-mono">
+                        {issues.slice(0, 10).map((iss, k) => <li key={k}>{iss.path}: {iss.message}</li>)}
+                        {issues.length > 10 && <li>… and {issues.length - 10} more</li>}
+                    </ul>
+                )}
+                <small className="text-muted-foreground">
+                    Covers every parameter, manual ω/θ lists, an imported network and the protocol text. Pins, plots and
+                    the running state are not saved. A file or link with bad fields is rejected as a whole.
+                </small>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import NumberField from "@/components/NumberField";
+import { ScatterChart, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { Layers } from "lucide-react";
+import { lockingToCSV, summarizeLocking, type FrequencyCluster } from "@/core/locking";
+import { downloadBlob } from "@/lib/download";
+import { POPULATION_COLORS } from "@/lib/palette";
+
+interface LockingCardProps {
+    omega: Float64Array; // natural frequencies
+    omegaEff: Float64Array | null; // ⟨dθ/dt⟩ over the window, null until there's history
+    clusters: FrequencyCluster[] | null; // grouped from omegaEff at `tol`
+    span: number; // seconds the average actually covers
+    averaging: number; // requested window (s)
+    onAveragingChange: (seconds: number) => void;
+    tol: number;
+    onTolChange: (tol: number) => void;
+}
+
+const MAX_POINTS = 1500; // SVG scatter stays responsive; larger N is strided
+const DRIFT_COLOR = "#9ca3af";
+
+export default function LockingCard({
+    omega, omegaEff, clusters, span, averaging, onAveragingChange, tol, onTolChange,
+}: LockingCardProps) {
+    const analysis = useMemo(() => {
+        if (!omegaEff || !clusters || omegaEff.length !== omega.length) return null;
+        return { clusters, summary: summarizeLocking(clusters, omegaEff.length) };
+    }, [omega, omegaEff, clusters]);
+
+    // one series per coloured cluster, then the other locked ones and the drifters
+    const series = useMemo(() => {
+        if (!analysis || !omegaEff) return [];
+        const n = omegaEff.length, stride = Math.ceil(n / MAX_POINTS);
+        const label = new Int32Array(n).fill(-1);
+        analysis.clusters.forEach((c, k) => {
+            if (c.members.length > 1) for (const i of c.members) label[i] = Math.min(k, POPULATION_COLORS.length);
+        });
+        const groups: Array<Array<{ w: number; W: number; i: number }>> = Array.from({ length: POPULATION_COLORS.length + 2 }, () => []);
+        for (let i = 0; i < n; i += stride) {
+            const g = label[i] < 0 ? POPULATION_COLORS.length + 1 : label[i];
+            groups[g].push({ w: omega[i], W: omegaEff[i], i });
+        }
+        return groups
+            .map((data, g) => ({
+                key: g,
+                data,
+                name: g < POPULATION_COLORS.length
+                    ? `Cluster ${g + 1} (Ω=${analysis.clusters[g]?.frequency.toFixed(3)})`
+                    : g === POPULATION_COLORS.length ? "Other clusters" : "Drifting",
+                color: g < POPULATION_COLORS.length ? POPULATION_COLORS[g] : g === POPULATION_COLORS.length ? "#475569" : DRIFT_COLOR,
+            }))
+            .filter(s => s.data.length > 0);
+    }, [analysis, omega, omegaEff]);
+
+    const summary = analysis?.summary;
+
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-4">
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                        <Layers className="w-5 h-5"/>
+                        <h3 className="text-lg font-semibold">Frequency locking</h3>
+                    </div>
+                    <Button size="sm" variant="secondary" disabled={!analysis}
+                            onClick={() => omegaEff && analysis && downloadBlob(lockingToCSV(omega, omegaEff, analysis.clusters), "locking.csv", "text/csv")}>
+                        Download CSV
+                    </Button>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3 items-end">
+                    <NumberField label="Window (s)" value={averaging} onChange={(v) => onAveragingChange(Math.max(0.1, v))} />
+                    <NumberField label="Tolerance (rad/s)" value={tol} onChange={onTolChange} />
+                    <div className="grid gap-1">
+                        <span className="text-xs text-muted-foreground">Locked</span>
+                        <span className="tabular-nums font-semibold">{summary ? `${(summary.lockedFraction * 100).toFixed(1)}%` : "–"}</span>
+                    </div>
+                    <div className="grid gap-1">
+                        <span className="text-xs text-muted-foreground">Largest cluster</span>
+                        <span className="tabular-nums font-semibold">{summary ? `${(summary.largestFraction * 100).toFixed(1)}%` : "–"}</span>
+                    </div>
+                    <div className="grid gap-1">
+                        <span className="text-xs text-muted-foreground">Clusters</span>
+                        <span className="tabular-nums font-semibold">{summary ? summary.clusterCount : "–"}</span>
+                    </div>
+                </div>
+
+                <div className="w-full h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ScatterChart margin={{ top: 5, right: 20, left: 5, bottom: 5 }}>
+                            <XAxis dataKey="w" type="number" name="ω" domain={["auto", "auto"]} tickFormatter={(v) => v.toFixed(2)} />
+                            <YAxis dataKey="W" type="number" name="Ω" domain={["auto", "auto"]} tickFormatter={(v) => v.toFixed(2)} />
+                            <Tooltip formatter={(v, n) => [Number(v).toFixed(4), n]} />
+                            <Legend />
+                            {series.map(s => (
+                                <Scatter key={s.key} name={s.name} data={s.data} fill={s.color} isAnimationActive={false} />
+                            ))}
+                        </ScatterChart>
+                    </ResponsiveContainer>
+                </div>
+                <small className="text-muted-foreground block mt-1">
+                    Effective frequency Ω<sub>i</sub> = ⟨dθ<sub>i</sub>/dt⟩ over the last {span > 0 ? `${span.toFixed(1)} s` : "window"} against
+                    natural ω<sub>i</sub> (rad/s). Locked oscillators sit on flat plateaus. Ω values within the tolerance of each
+                    other, and set apart from the rest by more than it, form a cluster; oscillators in no cluster of two or more are drifting.
+                    {omegaEff && omegaEff.length > MAX_POINTS ? ` Showing every ${Math.ceil(omegaEff.length / MAX_POINTS)}th oscillator.` : ""}
+                </small>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface NumberFieldProps {
+    label?: string;
+    value: number;
+    onChange: (v: number) => void;
+    step?: string;
+    className?: string;
+}
+
+// Small (optionally labelled) numeric field; keeps the raw text while typing
+export default function NumberField({ label, value, onChange, step = "any", className }: NumberFieldProps) {
+    const [text, setText] = useState(String(value));
+    // follow outside changes (presets) without clobbering partial input like "0."
+    useEffect(() => {
+        setText(prev => (Number(prev) === value ? prev : String(value)));
+    }, [value]);
+    const input = (
+        <Input
+            type="number"
+            step={step}
+            className={className}
+            value={text}
+            onChange={(e) => {
+                setText(e.currentTarget.value);
+                const v = Number(e.currentTarget.value);
+                if (e.currentTarget.value.trim() !== "" && Number.isFinite(v)) onChange(v);
+            }}
+            onBlur={() => setText(String(value))}
+        />
+    );
+    if (label === undefined) return input;
+    return (
+        <div className="grid gap-1">
+            <Label className="text-xs text-muted-foreground">{label}</Label>
+            {input}
+        </div>
+    );
+}
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import NumberField from "@/components/NumberField";
+import type { Pin } from "@/core/kuramoto";
+
+interface OscillatorInspectorProps {
+    index: number;
+    theta: number;
+    omega: number;
+    drift: number; // instantaneous dθ/dt
+    pin: Pin | undefined;
+    onPinChange: (pin: Pin | null) => void; // null => free again
+    pinCount: number;
+    onUnpinAll: () => void;
+    onClose: () => void;
+}
+
+const DEG = 180 / Math.PI;
+
+// State of the oscillator picked on the phase circle, with its pin controls
+export default function OscillatorInspector({
+    index, theta, omega, drift, pin, onPinChange, pinCount, onUnpinAll, onClose,
+}: OscillatorInspectorProps) {
+    const mode = !pin ? "free" : pin.frequency === 0 ? "fixed" : "pacemaker";
+
+    function setMode(v: string) {
+        if (v === "free") onPinChange(null);
+        else if (v === "fixed") onPinChange({ index, frequency: 0 });
+        else onPinChange({ index, frequency: pin?.frequency || omega || 1 });
+    }
+
+    return (
+        <div className="mt-3 flex flex-wrap items-end gap-4 rounded-lg border p-3 text-sm">
+            <div className="font-mono tabular-nums grid grid-cols-2 gap-x-3">
+                <span className="text-muted-foreground">i</span><span className="font-semibold">{index}</span>
+                <span className="text-muted-foreground">θ</span><span>{(theta * DEG).toFixed(1)}°</span>
+                <span className="text-muted-foreground">ω</span><span>{omega.toFixed(3)}</span>
+                <span className="text-muted-foreground">dθ/dt</span><span>{(drift * DEG).toFixed(1)}°/s</span>
+            </div>
+            <div className="grid gap-1">
+                <Label className="text-xs text-muted-foreground">Pin</Label>
+                <Select value={mode} onValueChange={setMode}>
+                    <SelectTrigger className="w-40">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="free">Free</SelectItem>
+                        <SelectItem value="fixed">Fixed phase</SelectItem>
+                        <SelectItem value="pacemaker">Pacemaker</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+            {mode === "pacemaker" && pin && (
+                <NumberField label="Frequency (rad/s)" className="w-28" value={pin.frequency}
+                             onChange={(v) => onPinChange({ index, frequency: v })} />
+            )}
+            <div className="ml-auto flex gap-2">
+                <Button size="sm" variant="outline" disabled={pinCount === 0} onClick={onUnpinAll}>
+                    Unpin all ({pinCount})
+                </Button>
+                <Button size="sm" variant="ghost" onClick={onClose}>Close</Button>
+            </div>
+        </div>
+    );
+}
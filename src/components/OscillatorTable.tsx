@@ -0,0 +1,157 @@
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { wrapAngle } from "@/core/utils";
+
+interface OscillatorTableProps {
+    omega: Float64Array;
+    theta: Float64Array;
+    drift: Float64Array; // instantaneous dθ/dt
+    degree: Int32Array | null; // null => all-to-all
+    cluster: Int32Array | null; // frequency-cluster label per oscillator (-1 drifting), null when not tracked
+    tick: number; // bumps when θ / drift have changed in place
+    highlighted: number | null;
+    onSelect: (i: number | null) => void;
+}
+
+type Column = "i" | "omega" | "theta" | "drift" | "degree" | "cluster";
+
+const COLUMNS: Array<{ key: Column; label: string }> = [
+    { key: "i", label: "i" },
+    { key: "omega", label: "ω" },
+    { key: "theta", label: "θ (°)" },
+    { key: "drift", label: "dθ/dt (°/s)" },
+    { key: "degree", label: "deg" },
+    { key: "cluster", label: "cluster" },
+];
+
+const ROW_H = 24; // px, fixed so only the visible rows need rendering
+const VIEW_H = 320;
+const OVERSCAN = 8;
+const DEG = 180 / Math.PI;
+
+// Unbounded when the field is empty or not a number
+const bound = (text: string, fallback: number) => {
+    const v = Number(text);
+    return text.trim() !== "" && Number.isFinite(v) ? v : fallback;
+};
+
+export default function OscillatorTable({ omega, theta, drift, degree, cluster, tick, highlighted, onSelect }: OscillatorTableProps) {
+    const N = theta.length;
+    const [sortBy, setSortBy] = useState<Column>("i");
+    const [ascending, setAscending] = useState(true);
+    const [fromText, setFromText] = useState("");
+    const [toText, setToText] = useState("");
+    const [filterBy, setFilterBy] = useState<Column>("omega");
+    const [minText, setMinText] = useState("");
+    const [maxText, setMaxText] = useState("");
+    const [scrollTop, setScrollTop] = useState(0);
+
+    // values in display units, so filters match what's on screen
+    const value = (c: Column, i: number): number => {
+        switch (c) {
+            case "i": return i;
+            case "omega": return omega[i];
+            case "theta": return wrapAngle(theta[i]) * DEG;
+            case "drift": return drift[i] * DEG;
+            case "degree": return degree ? degree[i] : N - 1;
+            case "cluster": return cluster ? cluster[i] : -1;
+        }
+    };
+
+    const rows = useMemo(() => {
+        const lo = Math.max(0, bound(fromText, 0)), hi = Math.min(N - 1, bound(toText, N - 1));
+        const vmin = bound(minText, -Infinity), vmax = bound(maxText, Infinity);
+        const out: number[] = [];
+        for (let i = Math.ceil(lo); i <= hi; i++) {
+            const v = value(filterBy, i);
+            if (v >= vmin && v <= vmax) out.push(i);
+        }
+        if (sortBy !== "i" || !ascending) {
+            const key = new Float64Array(N);
+            for (const i of out) key[i] = value(sortBy, i);
+            const sign = ascending ? 1 : -1;
+            out.sort((a, b) => sign * (key[a] - key[b]) || a - b);
+        }
+        return out;
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [N, omega, theta, drift, degree, cluster, tick, fromText, toText, filterBy, minText, maxText, sortBy, ascending]);
+
+    function toggleSort(c: Column) {
+        if (c === sortBy) setAscending(a => !a);
+        else {
+            setSortBy(c);
+            setAscending(true);
+        }
+    }
+
+    const first = Math.max(0, Math.floor(scrollTop / ROW_H) - OVERSCAN);
+    const last = Math.min(rows.length, Math.ceil((scrollTop + VIEW_H) / ROW_H) + OVERSCAN);
+    const cell = (c: Column, i: number) => {
+        if (c === "cluster") {
+            if (!cluster) return "–";
+            return cluster[i] < 0 ? "drift" : String(cluster[i] + 1);
+        }
+        const v = value(c, i);
+        return c === "i" || c === "degree" ? String(v) : v.toFixed(c === "omega" ? 3 : 1);
+    };
+    const grid = "grid grid-cols-[3.5rem_repeat(3,minmax(0,1fr))_3rem_3.5rem] gap-x-2 px-2";
+
+    return (
+        <div className="grid gap-2">
+            <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-1">
+                    <Label className="text-xs text-muted-foreground">Index range</Label>
+                    <div className="flex gap-1">
+                        <Input placeholder="0" value={fromText} onChange={(e) => setFromText(e.currentTarget.value)} />
+                        <Input placeholder={String(N - 1)} value={toText} onChange={(e) => setToText(e.currentTarget.value)} />
+                    </div>
+                </div>
+                <div className="grid gap-1">
+                    <Label className="text-xs text-muted-foreground">Value filter</Label>
+                    <div className="flex gap-1">
+                        <Select value={filterBy} onValueChange={(v) => setFilterBy(v as Column)}>
+                            <SelectTrigger className="w-24">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {COLUMNS.filter(c => c.key !== "i").map(c => <SelectItem key={c.key} value={c.key}>{c.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                        <Input placeholder="min" value={minText} onChange={(e) => setMinText(e.currentTarget.value)} />
+                        <Input placeholder="max" value={maxText} onChange={(e) => setMaxText(e.currentTarget.value)} />
+                    </div>
+                </div>
+            </div>
+
+            <div className="rounded-md border font-mono text-xs">
+                <div className={`${grid} border-b bg-muted/50 py-1 font-semibold`}>
+                    {COLUMNS.map(c => (
+                        <button key={c.key} type="button" className="text-left truncate" onClick={() => toggleSort(c.key)}>
+                            {c.label}{sortBy === c.key ? (ascending ? " ▲" : " ▼") : ""}
+                        </button>
+                    ))}
+                </div>
+                <div className="overflow-y-auto" style={{ height: VIEW_H }} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+                    <div style={{ height: rows.length * ROW_H, position: "relative" }}>
+                        {rows.slice(first, last).map((i, k) => (
+                            <div
+                                key={i}
+                                className={`${grid} absolute inset-x-0 cursor-pointer items-center ${i === highlighted ? "bg-amber-100" : "hover:bg-muted"}`}
+                                style={{ top: (first + k) * ROW_H, height: ROW_H }}
+                                onClick={() => onSelect(i === highlighted ? null : i)}
+                            >
+                                {COLUMNS.map(c => <span key={c.key} className="truncate tabular-nums">{cell(c.key, i)}</span>)}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            <small className="text-muted-foreground">
+                {rows.length} of {N} oscillators. Click a header to sort and a row to highlight it on the canvas.
+                {!cluster && " Cluster labels appear while frequency locking is on."}
+            </small>
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import NumberField from "@/components/NumberField";
+import { Users } from "lucide-react";
+import { MAX_POPULATIONS, type FrequencyKind, type FrequencySpec } from "@/core/populations";
+import { POPULATION_COLORS } from "@/lib/palette";
+
+interface PopulationsCardProps {
+    count: number;
+    specs: FrequencySpec[];
+    matrix: number[]; // count×count row-major K_ab
+    onCountChange: (count: number) => void;
+    onSpecChange: (a: number, spec: FrequencySpec) => void;
+    onMatrixChange: (a: number, b: number, value: number) => void;
+    onResample: () => void;
+    onChimeraPreset: () => void;
+}
+
+const WIDTH_LABEL: Record<FrequencyKind, string> = { gaussian: "σ", cauchy: "γ", uniform: "a" };
+
+export default function PopulationsCard({
+    count, specs, matrix, onCountChange, onSpecChange, onMatrixChange, onResample, onChimeraPreset,
+}: PopulationsCardProps) {
+    const range = Array.from({ length: count }, (_, a) => a);
+
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-6 grid gap-4">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Users className="w-5 h-5"/>
+                        <h3 className="text-lg font-semibold">Populations</h3>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={onChimeraPreset} title="Two identical groups, μ = 0.65, ν = 0.35, α = 87°">
+                        Chimera preset
+                    </Button>
+                </div>
+
+                <div className="grid grid-cols-7 items-center gap-3">
+                    <Label className="col-span-3">Populations P</Label>
+                    <Select value={String(count)} onValueChange={(v) => onCountChange(Number(v))}>
+                        <SelectTrigger className="col-span-4">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Array.from({ length: MAX_POPULATIONS }, (_, k) => k + 1).map(p => (
+                                <SelectItem key={p} value={String(p)}>{p === 1 ? "1 (single K)" : p}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                {count > 1 && (
+                    <>
+                        <small className="text-muted-foreground">
+                            Oscillators are split into P contiguous index blocks. Population a feels b with K·K<sub>ab</sub>.
+                        </small>
+
+                        <div className="grid gap-1">
+                            <Label>Coupling matrix K<sub>ab</sub> (row = receiving)</Label>
+                            <div className="grid gap-1" style={{ gridTemplateColumns: `2rem repeat(${count}, minmax(0, 1fr))` }}>
+                                <span />
+                                {range.map(b => (
+                                    <span key={b} className="text-xs text-center font-semibold" style={{ color: POPULATION_COLORS[b] }}>{b + 1}</span>
+                                ))}
+                                {range.map(a => [
+                                    <span key={`h${a}`} className="text-xs self-center font-semibold" style={{ color: POPULATION_COLORS[a] }}>{a + 1}</span>,
+                                    ...range.map(b => (
+                                        <NumberField
+                                            key={`${count}-${a}-${b}`}
+                                            className="h-8 px-1 text-sm"
+                                            step="0.05"
+                                            value={matrix[a * count + b]}
+                                            onChange={(v) => onMatrixChange(a, b, v)}
+                                        />
+                                    )),
+                                ])}
+                            </div>
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label>Frequencies per population</Label>
+                            {range.map(a => (
+                                <div key={a} className="grid grid-cols-12 items-center gap-2">
+                                    <span className="col-span-1 text-xs font-semibold" style={{ color: POPULATION_COLORS[a] }}>{a + 1}</span>
+                                    <div className="col-span-5">
+                                        <Select value={specs[a].kind} onValueChange={(v) => onSpecChange(a, { ...specs[a], kind: v as FrequencyKind })}>
+                                            <SelectTrigger className="h-8">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="gaussian">Gaussian</SelectItem>
+                                                <SelectItem value="cauchy">Lorentz</SelectItem>
+                                                <SelectItem value="uniform">Uniform</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="col-span-3">
+                                        <NumberField key={`c${count}-${a}`} label="centre" className="h-8 px-1 text-sm" value={specs[a].center}
+                                            onChange={(v) => onSpecChange(a, { ...specs[a], center: v })} />
+                                    </div>
+                                    <div className="col-span-3">
+                                        <NumberField key={`w${count}-${a}`} label={WIDTH_LABEL[specs[a].kind]} className="h-8 px-1 text-sm" value={specs[a].width}
+                                            onChange={(v) => onSpecChange(a, { ...specs[a], width: Math.max(0, v) })} />
+                                    </div>
+                                </div>
+                            ))}
+                            <Button variant="outline" onClick={onResample}>Resample ω</Button>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
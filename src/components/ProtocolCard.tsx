@@ -0,0 +1,57 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { CalendarClock } from "lucide-react";
+import type { ScheduledValues } from "@/core/schedule";
+
+interface ProtocolCardProps {
+    text: string;
+    onTextChange: (text: string) => void;
+    error: string | null;
+    // running protocol: protocol time, when its last ramp ends, current values
+    status: { elapsed: number; end: number; values: ScheduledValues } | null;
+    onStart: () => void;
+    onStop: () => void;
+}
+
+const VALUE_LABELS = { K: "K", noise: "σ", omega: "Δω" } as const;
+
+export default function ProtocolCard({ text, onTextChange, error, status, onStart, onStop }: ProtocolCardProps) {
+    const values = status ? (Object.entries(status.values) as Array<[keyof typeof VALUE_LABELS, number]>) : [];
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-4 grid gap-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <CalendarClock className="w-5 h-5"/>
+                        <h3 className="text-lg font-semibold">Protocol</h3>
+                    </div>
+                    {status
+                        ? <Button size="sm" variant="outline" onClick={onStop}>Stop</Button>
+                        : <Button size="sm" onClick={onStart}>Start</Button>}
+                </div>
+                <div className="grid gap-2">
+                    <Label>One event per line, in sim seconds from the start</Label>
+                    <textarea
+                        className="w-full h-28 rounded-md border px-2 py-1 font-mono text-sm"
+                        value={text}
+                        onChange={(e) => onTextChange(e.target.value)}
+                        placeholder={"0 K ramp 0 3 200\n200 K = 1"}
+                    />
+                    {error && <small className="text-destructive font-mono">{error}</small>}
+                    <small className="text-muted-foreground">
+                        <code>t K = v</code> steps to v at t. <code>t K ramp a b T</code> ramps linearly from a to b over T seconds.
+                        The parameter can be K, noise (σ) or omega (Δω, added to every ω<sub>i</sub>). Each value holds until that
+                        parameter's next event, and parameters without events keep their slider value. Reset restarts the protocol.
+                    </small>
+                </div>
+                {status && (
+                    <div className="flex flex-wrap gap-4 text-sm tabular-nums">
+                        <span>t = {status.elapsed.toFixed(1)} / {status.end.toFixed(1)} s{status.elapsed >= status.end ? " (done)" : ""}</span>
+                        {values.map(([k, v]) => <span key={k}>{VALUE_LABELS[k]} = {v.toFixed(3)}</span>)}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,66 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Video } from "lucide-react";
+import NumberField from "@/components/NumberField";
+
+export type TrajectoryFormat = "csv" | "npz" | "zarr";
+
+interface RecorderCardProps {
+    recording: boolean;
+    interval: number;
+    onIntervalChange: (v: number) => void;
+    drift: boolean;
+    onDriftChange: (v: boolean) => void;
+    onStart: () => void;
+    onStop: () => void;
+    onClear: () => void;
+    onExport: (format: TrajectoryFormat) => void;
+    // what has been recorded so far
+    stats: { rows: number; width: number; from: number; to: number; bytes: number };
+}
+
+export default function RecorderCard({
+    recording, interval, onIntervalChange, drift, onDriftChange, onStart, onStop, onClear, onExport, stats,
+}: RecorderCardProps) {
+    const empty = stats.rows === 0;
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-4 grid gap-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Video className="w-5 h-5"/>
+                        <h3 className="text-lg font-semibold">Trajectory recorder</h3>
+                    </div>
+                    {recording
+                        ? <Button size="sm" variant="outline" onClick={onStop}>Stop</Button>
+                        : <Button size="sm" onClick={onStart}>Record</Button>}
+                </div>
+                <div className="flex flex-wrap items-end gap-4">
+                    <NumberField label="Every (s)" className="w-24" value={interval} onChange={(v) => onIntervalChange(Math.max(0, v))} />
+                    <div className="flex items-center gap-2 pb-2">
+                        <Switch id="rec-drift" checked={drift} onCheckedChange={onDriftChange} disabled={recording} />
+                        <Label htmlFor="rec-drift">Also dθ/dt</Label>
+                    </div>
+                </div>
+                <div className="text-sm tabular-nums text-muted-foreground">
+                    {empty
+                        ? "Nothing recorded yet."
+                        : `${stats.rows} samples × ${stats.width} oscillators, t = ${stats.from.toFixed(2)} … ${stats.to.toFixed(2)} s, ${(stats.bytes / 1e6).toFixed(1)} MB`}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" disabled={empty} onClick={() => onExport("csv")}>Wide CSV</Button>
+                    <Button size="sm" variant="outline" disabled={empty} onClick={() => onExport("npz")}>NumPy (.npz)</Button>
+                    <Button size="sm" variant="outline" disabled={empty} onClick={() => onExport("zarr")}>Zarr (.zip)</Button>
+                    <Button size="sm" variant="ghost" disabled={empty} onClick={onClear}>Clear</Button>
+                </div>
+                <small className="text-muted-foreground">
+                    Samples every oscillator's θ (wrapped to [−π, π]) at the chosen interval of sim time, for as long as it
+                    runs; an interval at or below dt records every step. Memory grows with N × samples. Reset or a new N
+                    starts a new recording. The interval applies from the next Record.
+                </small>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Camera } from "lucide-react";
+import type { Snapshot } from "@/core/snapshot";
+
+interface SnapshotsCardProps {
+    snapshots: Snapshot[];
+    onTake: (name: string) => void;
+    onRestore: (k: number) => void;
+    onExport: (k: number) => void;
+    onDelete: (k: number) => void;
+    onImport: (files: File[]) => void;
+    error: string | null; // from the last import
+}
+
+// Named copies of the full state; restoring continues the run from there
+export default function SnapshotsCard({ snapshots, onTake, onRestore, onExport, onDelete, onImport, error }: SnapshotsCardProps) {
+    const [name, setName] = useState("");
+
+    function take() {
+        onTake(name.trim() || `snapshot ${snapshots.length + 1}`);
+        setName("");
+    }
+
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-4 grid gap-3">
+                <div className="flex items-center gap-2">
+                    <Camera className="w-5 h-5"/>
+                    <h3 className="text-lg font-semibold">Snapshots</h3>
+                </div>
+                <div className="flex gap-2">
+                    <Input
+                        value={name}
+                        placeholder={`snapshot ${snapshots.length + 1}`}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === "Enter") take(); }}
+                    />
+                    <Button size="sm" onClick={take}>Take</Button>
+                </div>
+                {snapshots.length > 0 && (
+                    <ul className="grid gap-1 text-sm">
+                        {snapshots.map((s, k) => (
+                            <li key={k} className="flex items-center gap-2">
+                                <span className="flex-1 truncate" title={s.created}>
+                                    <span className="font-medium">{s.name}</span>{" "}
+                                    <span className="text-muted-foreground tabular-nums">t = {s.t.toFixed(2)}, N = {s.theta.length}</span>
+                                </span>
+                                <Button size="sm" variant="outline" onClick={() => onRestore(k)}>Restore</Button>
+                                <Button size="sm" variant="ghost" onClick={() => onExport(k)}>Save</Button>
+                                <Button size="sm" variant="ghost" onClick={() => onDelete(k)}>✕</Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <Input
+                    type="file"
+                    accept=".json,application/json"
+                    multiple
+                    onChange={(e) => {
+                        const files = Array.from(e.currentTarget.files ?? []);
+                        if (files.length > 0) onImport(files);
+                        e.currentTarget.value = ""; // allow re-loading the same file
+                    }}
+                />
+                {error && <small className="text-destructive font-mono">{error}</small>}
+                <small className="text-muted-foreground">
+                    A snapshot holds θ, ω, θ′, the network, the sim time and the r(t) history. Restoring keeps the current
+                    K, σ and other settings, so one transient can be continued under different parameters.
+                </small>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Grid3x3 } from "lucide-react";
+import type { Classification } from "@/core/chimera";
+import type { SpaceTimeBuffer } from "@/core/spacetime";
+import { phaseRGB, viridisRGB } from "@/lib/colormap";
+import { downloadBlob } from "@/lib/download";
+
+export type SpaceTimeQuantity = "local" | "phase";
+
+interface SpaceTimeCardProps {
+    buffer: SpaceTimeBuffer; // filled by the parent; new rows are drawn whenever `tick` changes
+    tick: number;
+    quantity: SpaceTimeQuantity;
+    onQuantityChange: (q: SpaceTimeQuantity) => void;
+    rows: number; // requested history length
+    onRowsChange: (rows: number) => void;
+    classification: Classification | null;
+}
+
+const STATE_LABEL = { synchronized: "Synchronized", incoherent: "Incoherent", chimera: "Chimera" } as const;
+const HISTORY_ROWS = [100, 300, 600, 1000, 2000];
+
+// 256-entry colour tables: θ ∈ [−π, π) on the hue wheel, R ∈ [0, 1] on viridis
+function lut(color: (v: number) => [number, number, number], lo: number, hi: number) {
+    const t = new Uint8ClampedArray(256 * 3);
+    for (let k = 0; k < 256; k++) t.set(color(lo + ((hi - lo) * k) / 255), 3 * k);
+    return { t, lo, scale: 255 / (hi - lo) };
+}
+const LUTS = { phase: lut(phaseRGB, -Math.PI, Math.PI), local: lut(viridisRGB, 0, 1) };
+
+export default function SpaceTimeCard({
+    buffer, tick, quantity, onQuantityChange, rows, onRowsChange, classification,
+}: SpaceTimeCardProps) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    // Rows are painted once into an offscreen canvas at their ring-buffer slot;
+    // each frame only new rows are painted and the ring is blitted in order.
+    const offRef = useRef<HTMLCanvasElement | null>(null);
+    const drawnRef = useRef({ buffer: null as SpaceTimeBuffer | null, quantity, width: 0, pushed: 0 });
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || buffer.width === 0) return;
+        const W = buffer.width, H = buffer.capacity;
+        const off = (offRef.current ??= document.createElement("canvas"));
+        const drawn = drawnRef.current;
+        const fresh = drawn.buffer !== buffer || drawn.quantity !== quantity || drawn.width !== W
+            || buffer.pushed < drawn.pushed || off.width !== W || off.height !== H;
+        if (off.width !== W || off.height !== H) {
+            off.width = W;
+            off.height = H;
+        }
+        if (canvas.width !== W || canvas.height !== H) {
+            canvas.width = W;
+            canvas.height = H;
+        }
+        const octx = off.getContext("2d");
+        const ctx = canvas.getContext("2d");
+        if (!octx || !ctx) return;
+
+        const newRows = fresh ? buffer.size : Math.min(buffer.size, buffer.pushed - drawn.pushed);
+        if (newRows > 0) {
+            const { t, lo, scale } = LUTS[quantity];
+            const line = octx.createImageData(W, 1);
+            const px = line.data;
+            for (let k = buffer.size - newRows; k < buffer.size; k++) {
+                const row = buffer.row(k);
+                for (let i = 0, p = 0; i < W; i++, p += 4) {
+                    const c = 3 * Math.min(255, Math.max(0, Math.round((row[i] - lo) * scale)));
+                    px[p] = t[c];
+                    px[p + 1] = t[c + 1];
+                    px[p + 2] = t[c + 2];
+                    px[p + 3] = 255;
+                }
+                octx.putImageData(line, 0, buffer.slotOf(k));
+            }
+        }
+        Object.assign(drawn, { buffer, quantity, width: W, pushed: buffer.pushed });
+
+        // oldest row first, newest at the bottom
+        ctx.clearRect(0, 0, W, H);
+        const top = H - buffer.size;
+        const s0 = buffer.slotOf(0);
+        const first = Math.min(buffer.size, H - s0);
+        if (first > 0) ctx.drawImage(off, 0, s0, W, first, 0, top, W, first);
+        const rest = buffer.size - first;
+        if (rest > 0) ctx.drawImage(off, 0, 0, W, rest, 0, top + first, W, rest);
+    }, [buffer, tick, quantity]);
+
+    function downloadPNG() {
+        const src = canvasRef.current;
+        if (!src || src.width === 0) return;
+        // nearest-neighbour upscale so small rings aren't a few pixels wide
+        const s = Math.max(1, Math.ceil(800 / src.width));
+        const out = document.createElement("canvas");
+        out.width = src.width * s;
+        out.height = src.height * s;
+        const ctx = out.getContext("2d");
+        if (!ctx) return;
+        ctx.imageSmoothingEnabled = false;
+        ctx.fillStyle = "#ffffff";
+        ctx.fillRect(0, 0, out.width, out.height);
+        ctx.drawImage(src, 0, 0, out.width, out.height);
+        out.toBlob(b => b && downloadBlob(b, `spacetime_${quantity}.png`), "image/png");
+    }
+
+    const span = buffer.size > 1 ? buffer.time(buffer.size - 1) - buffer.time(0) : 0;
+
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <div className="flex items-center gap-2">
+                        <Grid3x3 className="w-5 h-5"/>
+                        <h3 className="text-lg font-semibold">Space–time</h3>
+                        {classification && (
+                            <span className="ml-2 rounded-md border px-2 py-0.5 text-sm">
+                                {STATE_LABEL[classification.state]}
+                                <span className="text-muted-foreground"> · {(classification.coherentFraction * 100).toFixed(0)}% coherent</span>
+                            </span>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Label>Colour</Label>
+                        <Select value={quantity} onValueChange={(v) => onQuantityChange(v as SpaceTimeQuantity)}>
+                            <SelectTrigger className="w-40">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="local">Local order R<sub>i</sub></SelectItem>
+                                <SelectItem value="phase">Phase θ<sub>i</sub></SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <Label>History</Label>
+                        <Select value={String(rows)} onValueChange={(v) => onRowsChange(Number(v))}>
+                            <SelectTrigger className="w-24">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {HISTORY_ROWS.map(n => <SelectItem key={n} value={String(n)}>{n} rows</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                        <Button size="sm" variant="secondary" onClick={downloadPNG}>Download PNG</Button>
+                    </div>
+                </div>
+                <canvas ref={canvasRef} className="w-full h-64 rounded-md border" style={{ imageRendering: "pixelated" }} />
+                <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                    <span>oscillator index →</span>
+                    <span>
+                        time ↓ (newest at the bottom{span > 0 ? `, last ${span.toFixed(1)} s` : ""}
+                        {buffer.capacity < rows ? `, ${buffer.capacity} rows at this N` : ""})
+                    </span>
+                </div>
+                <small className="text-muted-foreground block mt-1">
+                    R<sub>i</sub> is the order parameter over each node's own neighbourhood. The label comes from R<sub>i</sub> averaged over
+                    the recent history: all nodes coherent (R<sub>i</sub> ≥ 0.9), none, or coexisting coherent and incoherent domains.
+                </small>
+            </CardContent>
+        </Card>
+    );
+}
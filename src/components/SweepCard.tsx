@@ -0,0 +1,117 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import NumberField from "@/components/NumberField";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ErrorBar, Legend, ReferenceLine } from "recharts";
+import { TrendingUp } from "lucide-react";
+import { sweepToCSV, type SweepOptions, type SweepPoint } from "@/core/sweep";
+import { downloadBlob } from "@/lib/download";
+
+interface SweepCardProps {
+    dt: number;
+    Kc: number | null; // mean-field critical coupling, drawn as a marker
+    points: SweepPoint[];
+    progress: number | null; // null => idle
+    onStart: (options: SweepOptions) => void;
+    onCancel: () => void;
+}
+
+export default function SweepCard({ dt, Kc, points, progress, onStart, onCancel }: SweepCardProps) {
+    const [Kmin, setKmin] = useState(0);
+    const [Kmax, setKmax] = useState(3);
+    const [steps, setSteps] = useState(16);
+    const [transient, setTransient] = useState(20);
+    const [average, setAverage] = useState(10);
+    const [hysteresis, setHysteresis] = useState(false);
+
+    const running = progress !== null;
+
+    // one row per K with the up/down branches side by side
+    const data = useMemo(() => {
+        const rows = new Map<number, { K: number; up?: number; upStd?: number; down?: number; downStd?: number }>();
+        for (const p of points) {
+            const row = rows.get(p.K) ?? { K: p.K };
+            if (p.direction === "up") { row.up = p.rMean; row.upStd = p.rStd; }
+            else { row.down = p.rMean; row.downStd = p.rStd; }
+            rows.set(p.K, row);
+        }
+        return Array.from(rows.values()).sort((a, b) => a.K - b.K);
+    }, [points]);
+
+    function start() {
+        const n = Math.max(1, Math.round(steps));
+        onStart({ Kmin, Kmax, steps: n, transient: Math.max(0, transient), average: Math.max(dt, average), dt, hysteresis });
+    }
+
+    return (
+        <Card className="shadow-xl">
+            <CardContent className="p-4">
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                        <TrendingUp className="w-5 h-5"/>
+                        <h3 className="text-lg font-semibold">K-sweep r∞(K)</h3>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="outline" disabled={points.length === 0}
+                                onClick={() => navigator.clipboard.writeText(sweepToCSV(points))}>
+                            Copy CSV
+                        </Button>
+                        <Button size="sm" variant="secondary" disabled={points.length === 0}
+                                onClick={() => downloadBlob(sweepToCSV(points), "k_sweep.csv", "text/csv")}>
+                            Download CSV
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3">
+                    <NumberField label="K min" value={Kmin} onChange={setKmin} />
+                    <NumberField label="K max" value={Kmax} onChange={setKmax} />
+                    <NumberField label="Steps" value={steps} onChange={setSteps} step="1" />
+                    <NumberField label="Transient (s)" value={transient} onChange={setTransient} />
+                    <NumberField label="Averaging (s)" value={average} onChange={setAverage} />
+                </div>
+
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                        <Switch id="sweep-hyst" checked={hysteresis} onCheckedChange={setHysteresis} />
+                        <Label htmlFor="sweep-hyst">Sweep back down (hysteresis)</Label>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        {running && <span className="text-sm tabular-nums">{(progress * 100).toFixed(0)}%</span>}
+                        {running
+                            ? <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>
+                            : <Button size="sm" onClick={start}>Run sweep</Button>}
+                    </div>
+                </div>
+                <small className="text-muted-foreground block mb-2">
+                    Starts from the current state and model settings; phases carry over between K values.
+                </small>
+
+                <div className="w-full h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={data} margin={{ top: 5, right: 20, left: 5, bottom: 5 }}>
+                            <XAxis dataKey="K" type="number" domain={["dataMin", "dataMax"]} tickFormatter={(v) => v.toFixed(2)} />
+                            <YAxis domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} />
+                            <Tooltip formatter={(v, n) => [Number(v).toFixed(3), n]} labelFormatter={(v) => `K=${Number(v).toFixed(3)}`} />
+                            <Legend />
+                            {Kc !== null && (
+                                <ReferenceLine x={Kc} stroke="#16a34a" strokeDasharray="6 4" ifOverflow="extendDomain"
+                                    label={{ value: "Kc", position: "insideTopLeft", fontSize: 12 }} />
+                            )}
+                            <Line name="r (up)" type="monotone" dataKey="up" strokeWidth={2} isAnimationActive={false} connectNulls>
+                                <ErrorBar dataKey="upStd" width={4} />
+                            </Line>
+                            {hysteresis && (
+                                <Line name="r (down)" type="monotone" dataKey="down" stroke="#dc2626" strokeWidth={2} isAnimationActive={false} connectNulls>
+                                    <ErrorBar dataKey="downStd" width={4} stroke="#dc2626" />
+                                </Line>
+                            )}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { classifyCoherence, localOrder } from "./chimera";
+import { buildAdjacency, degree, findEdge } from "./graph";
+import { computeOrder } from "./kuramoto";
+import { Rng } from "./random";
+import { TAU } from "./utils";
+
+describe("nonlocal ring", () => {
+    it("weights neighbours by the kernel up to its radius", () => {
+        const step = buildAdjacency("nonlocal", 20, { kernel: "step", radius: 3 })!;
+        expect(degree(step, 0)).toBe(6);
+        expect(findEdge(step, 0, 17)).toBeGreaterThanOrEqual(0);
+        expect(findEdge(step, 0, 4)).toBe(-1);
+
+        const exp = buildAdjacency("nonlocal", 100, { kernel: "exp", radius: 2 })!;
+        expect(degree(exp, 5)).toBe(24); // cut off at 6R on each side
+        expect(exp.weight[findEdge(exp, 5, 7)]).toBeCloseTo(Math.exp(-1), 12);
+    });
+
+    it("never links a node to itself or twice on a small ring", () => {
+        const g = buildAdjacency("nonlocal", 6, { kernel: "step", radius: 10 })!;
+        expect(degree(g, 0)).toBe(5);
+    });
+});
+
+describe("local order parameter", () => {
+    const N = 200;
+    const ring = buildAdjacency("nonlocal", N, { kernel: "step", radius: 5 });
+
+    it("equals the global r when coupling is all-to-all", () => {
+        const th = Float64Array.from({ length: 10 }, (_, i) => i * 0.3);
+        const R = localOrder(th, null);
+        expect(R[3]).toBeCloseTo(computeOrder(th).r, 12);
+    });
+
+    it("labels synchronized, incoherent and chimera profiles", () => {
+        const rng = new Rng(11);
+        const sync = new Float64Array(N).fill(0.4);
+        const random = Float64Array.from({ length: N }, () => rng.uniform() * TAU);
+        const half = Float64Array.from({ length: N }, (_, i) => (i < N / 2 ? 0 : random[i]));
+
+        expect(classifyCoherence(localOrder(sync, ring)).state).toBe("synchronized");
+        expect(classifyCoherence(localOrder(random, ring)).state).toBe("incoherent");
+        const c = classifyCoherence(localOrder(half, ring));
+        expect(c.state).toBe("chimera");
+        expect(c.coherentFraction).toBeGreaterThan(0.4);
+        expect(c.coherentFraction).toBeLessThan(0.55);
+    });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { evalCoupling, isPureSine, parseFourier, sakaguchi, SINE_COUPLING } from "./coupling";
+
+describe("coupling functions", () => {
+    it("expands sin(Δ − α) + b sin 2Δ into harmonics", () => {
+        const H = sakaguchi(0.4, 0.3);
+        for (const x of [-2, -0.5, 0, 1, 2.5]) {
+            expect(evalCoupling(H, x)).toBeCloseTo(Math.sin(x - 0.4) + 0.3 * Math.sin(2 * x), 12);
+        }
+        expect(isPureSine(sakaguchi(0))).toBe(true);
+        expect(isPureSine(H)).toBe(false);
+        expect(evalCoupling(SINE_COUPLING, 1)).toBe(Math.sin(1));
+    });
+
+    it("parses a typed Fourier series", () => {
+        const H = parseFourier("# H(x)\n1 1\n2 0.5 -0.25\n1, 0, 0.1");
+        expect(H).toEqual([{ m: 1, a: 1, b: 0.1 }, { m: 2, a: 0.5, b: -0.25 }]);
+    });
+
+    it("rejects bad lines with their line number", () => {
+        expect(() => parseFourier("1 1\n0 1")).toThrow(/line 2/);
+        expect(() => parseFourier("1.5 1")).toThrow(/line 1/);
+        expect(() => parseFourier("1 x")).toThrow(/line 1/);
+        expect(() => parseFourier("# nothing")).toThrow(/no harmonics/);
+    });
+});
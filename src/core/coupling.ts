@@ -0,0 +1,56 @@
+// ----------------------- Coupling functions -----------------------
+// Phase-difference coupling H(Δ), Δ = θ_j − θ_i, as a finite Fourier series
+//   H(Δ) = Σ_m a_m sin(mΔ) + b_m cos(mΔ).
+// Plain Kuramoto is H = sin Δ. Keeping H in Fourier form lets the all-to-all
+// sum collapse onto the order parameters Z_m, so it stays O(N·M).
+
+export interface Harmonic {
+    m: number; // positive integer
+    a: number; // sin(mΔ) coefficient
+    b: number; // cos(mΔ) coefficient
+}
+
+export type CouplingFunction = Harmonic[];
+
+export const SINE_COUPLING: CouplingFunction = [{ m: 1, a: 1, b: 0 }];
+
+// Sakaguchi phase lag sin(Δ − α) plus a second harmonic b₂·sin(2Δ)
+export function sakaguchi(alpha: number, b2 = 0): CouplingFunction {
+    const H: CouplingFunction = [{ m: 1, a: Math.cos(alpha), b: -Math.sin(alpha) }];
+    if (b2 !== 0) H.push({ m: 2, a: b2, b: 0 });
+    return H;
+}
+
+export function isPureSine(H: CouplingFunction) {
+    return H.length === 1 && H[0].m === 1 && H[0].a === 1 && H[0].b === 0;
+}
+
+export function evalCoupling(H: CouplingFunction, x: number) {
+    let s = 0;
+    for (const { m, a, b } of H) s += a * Math.sin(m * x) + (b !== 0 ? b * Math.cos(m * x) : 0);
+    return s;
+}
+
+/**
+ * Parse a typed Fourier series, one harmonic per line as "m a b"
+ * (b may be omitted; "#" starts a comment). Repeated m are summed.
+ * Throws an Error naming the first bad line.
+ */
+export function parseFourier(text: string): CouplingFunction {
+    const byM = new Map<number, Harmonic>();
+    text.split(/\r?\n/).forEach((raw, k) => {
+        const line = raw.replace(/#.*/, "").trim();
+        if (line === "") return;
+        const cols = line.split(/[\s,;]+/);
+        const [m, a, b = 0] = cols.map(Number);
+        if (cols.length > 3 || !Number.isInteger(m) || m < 1 || !Number.isFinite(a) || !Number.isFinite(b)) {
+            throw new Error(`line ${k + 1}: expected "m a [b]" with integer m ≥ 1, got "${line}"`);
+        }
+        const h = byM.get(m) ?? { m, a: 0, b: 0 };
+        h.a += a;
+        h.b += b;
+        byM.set(m, h);
+    });
+    if (byM.size === 0) throw new Error("no harmonics given");
+    return Array.from(byM.values()).sort((x, y) => x.m - y.m);
+}
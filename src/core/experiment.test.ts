@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { ExperimentError, experimentFromHash, experimentToHash, parseExperiment, savedTopology, type Experiment } from "./experiment";
+
+function sample(): Experiment {
+    return {
+        version: 1,
+        seed: 1234,
+        N: 3,
+        K: 1.5,
+        dt: 0.02,
+        noise: 0,
+        speed: 1,
+        model: { kind: "kuramoto", mass: 1, damping: 1 },
+        integrator: { method: "rk4", tol: 1e-6 },
+        coupling: { mode: "sakaguchi", alphaDeg: 10, harmonic2: 0, fourier: "1 1 0" },
+        omega: { mode: "manual", gaussStd: 0.6, cauchyGamma: 0.5, bimodalOffset: 1, uniRange: 1, powerP: 1, genFraction: 0.5, values: [0.1, -0.2, 0.3] },
+        phases: { mode: "linear", clusterSpread: 20 },
+        topology: {
+            kind: "file", erProb: 0.05, ringK: 2, ringKernel: "exp", ringRadius: 4, latticeStencil: 4, wsBeta: 0.1, baM: 2,
+            starHubs: 1, weightMode: "unit", repulsiveFrac: 0.2, network: { name: "tri.txt", n: 3, edges: [[0, 1, 1], [1, 2, 0.5]] },
+        },
+        populations: { count: 2, specs: [{ kind: "gaussian", center: 0, width: 0.5 }, { kind: "cauchy", center: 1, width: 0.1 }], matrix: [1, 0.2, 0.2, 1] },
+        forcing: { enabled: true, amplitude: 0.5, frequency: 1, targets: { kind: "range", from: 0, to: 1 } },
+        protocol: "0 K ramp 0 3 200",
+    };
+}
+
+describe("experiment files", () => {
+    it("round-trips through JSON and the URL hash", () => {
+        const exp = sample();
+        expect(parseExperiment(JSON.stringify(exp))).toEqual(exp);
+        exp.topology.network!.name = "σ → ω, ünïcode.txt";
+        const hash = experimentToHash(exp);
+        expect(hash).toMatch(/^#exp=[A-Za-z0-9_-]+$/);
+        expect(experimentFromHash(hash)).toEqual(exp);
+        expect(experimentFromHash("#something-else")).toBeNull();
+    });
+
+    it("saves an imported-network topology with no network as all-to-all, which loads back", () => {
+        const exp = sample();
+        delete exp.topology.network;
+        expect(() => parseExperiment(exp)).toThrow(ExperimentError);
+        exp.topology = savedTopology(exp.topology);
+        expect(exp.topology.kind).toBe("all");
+        expect(parseExperiment(JSON.parse(JSON.stringify(exp)))).toEqual(exp);
+        const withNetwork = sample();
+        expect(savedTopology(withNetwork.topology)).toBe(withNetwork.topology);
+    });
+
+    it("rejects N below the UI's minimum of 2", () => {
+        const exp = sample();
+        exp.topology = savedTopology({ ...exp.topology, network: undefined });
+        exp.N = 1;
+        exp.omega = { ...exp.omega, mode: "power" };
+        delete exp.omega.values;
+        try {
+            parseExperiment(exp);
+            expect.unreachable();
+        } catch (err) {
+            expect((err as ExperimentError).issues.map(i => i.path)).toEqual(["N"]);
+        }
+    });
+
+    it("keeps the seed optional", () => {
+        const exp = sample();
+        delete exp.seed;
+        expect(parseExperiment(exp).seed).toBeUndefined();
+    });
+
+    it("reports every bad field instead of falling back", () => {
+        const bad = JSON.parse(JSON.stringify(sample()));
+        bad.K = "strong";
+        bad.omega.values[1] = null;
+        bad.topology.kind = "torus";
+        delete bad.integrator;
+        bad.populations.matrix = [1, 0, 0];
+        bad.protocol = "10 K jump 3";
+        try {
+            parseExperiment(bad);
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(ExperimentError);
+            expect((err as ExperimentError).issues.map(i => i.path)).toEqual(
+                expect.arrayContaining(["K", "omega.values[1]", "topology.kind", "integrator", "populations.matrix", "protocol"]),
+            );
+        }
+    });
+
+    it("rejects other versions, broken JSON and corrupted links outright", () => {
+        expect(() => parseExperiment({ ...sample(), version: 2 })).toThrow(/^version: unsupported version 2/);
+        expect(() => parseExperiment("{ nope")).toThrow(/^\(file\): not valid JSON/);
+        expect(() => experimentFromHash("#exp=%%%")).toThrow(ExperimentError);
+    });
+
+    it("checks an imported network against N", () => {
+        const exp = sample();
+        exp.topology.network!.edges.push([0, 7, 1]);
+        exp.N = 4;
+        const issues = (() => {
+            try {
+                parseExperiment(exp);
+                return [];
+            } catch (err) {
+                return (err as ExperimentError).issues.map(i => i.path);
+            }
+        })();
+        expect(issues).toEqual(["topology.network.edges[2]", "N"]);
+    });
+});
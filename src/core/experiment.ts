@@ -0,0 +1,354 @@
+// ----------------------- Experiment files -----------------------
+// A versioned, self-contained description of a setup: every parameter the UI
+// exposes, the manual ω/θ lists, an imported network and optionally the seed.
+// Parsing validates every field and reports all problems at once, like the
+// network importers, instead of quietly falling back to defaults.
+import { parseFourier } from "./coupling";
+import type { ForcingTargets } from "./forcing";
+import type { RingKernel, Topology, WeightMode } from "./graph";
+import type { IntegratorName } from "./integrators";
+import type { ModelName } from "./kuramoto";
+import { MAX_POPULATIONS, type FrequencySpec } from "./populations";
+import { parseSchedule } from "./schedule";
+
+export const EXPERIMENT_VERSION = 1;
+const MIN_OSCILLATORS = 2; // as in the UI: e.g. the ±P powers need a consumer
+const MAX_OSCILLATORS = 20_000; // the UI's N limit
+
+export type OmegaMode = "gaussian" | "cauchy" | "bimodal" | "uniform" | "power" | "manual";
+export type PhaseMode = "uniform" | "zero" | "linear" | "two-cluster" | "manual";
+
+export interface Experiment {
+    version: typeof EXPERIMENT_VERSION;
+    seed?: number; // omitted => a link reproduces the setup, not the exact run
+    N: number;
+    K: number;
+    dt: number;
+    noise: number;
+    speed: number;
+    model: { kind: ModelName; mass: number; damping: number };
+    integrator: { method: IntegratorName; tol: number };
+    coupling: { mode: "sakaguchi" | "fourier"; alphaDeg: number; harmonic2: number; fourier: string };
+    omega: {
+        mode: OmegaMode;
+        gaussStd: number;
+        cauchyGamma: number;
+        bimodalOffset: number;
+        uniRange: number;
+        powerP: number;
+        genFraction: number;
+        values?: number[]; // manual mode only
+    };
+    phases: { mode: PhaseMode; clusterSpread: number; values?: number[] };
+    topology: {
+        kind: Topology | "file";
+        erProb: number;
+        ringK: number;
+        ringKernel: RingKernel;
+        ringRadius: number;
+        latticeStencil: 4 | 8;
+        wsBeta: number;
+        baM: number;
+        starHubs: number;
+        weightMode: WeightMode;
+        repulsiveFrac: number;
+        // imported network ("file" only): directed edges [i, j, w], i coupled to j with weight w
+        network?: { name: string; n: number; edges: Array<[number, number, number]> };
+    };
+    populations: { count: number; specs: FrequencySpec[]; matrix: number[] };
+    forcing: { enabled: boolean; amplitude: number; frequency: number; targets: ForcingTargets };
+    protocol: string; // schedule text, not started on load
+}
+
+export interface ExperimentIssue {
+    path: string; // e.g. "omega.values[3]"
+    message: string;
+}
+
+export class ExperimentError extends Error {
+    issues: ExperimentIssue[];
+
+    constructor(issues: ExperimentIssue[]) {
+        const first = issues[0];
+        super(first ? `${first.path}: ${first.message}` : "invalid experiment");
+        this.name = "ExperimentError";
+        this.issues = issues;
+    }
+}
+
+const MODEL_KINDS: ModelName[] = ["kuramoto", "inertial"];
+const METHODS: IntegratorName[] = ["euler", "heun", "rk4", "rk45"];
+const OMEGA_MODES: OmegaMode[] = ["gaussian", "cauchy", "bimodal", "uniform", "power", "manual"];
+const PHASE_MODES: PhaseMode[] = ["uniform", "zero", "linear", "two-cluster", "manual"];
+const TOPOLOGIES: Array<Topology | "file"> = ["all", "ring", "nonlocal", "er", "lattice", "ws", "ba", "star", "file"];
+const WEIGHT_MODES: WeightMode[] = ["unit", "random", "signed"];
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Collects issues while reading fields; every getter returns a usable value so
+// checking can continue past the first problem
+class Reader {
+    issues: ExperimentIssue[] = [];
+
+    fail(path: string, message: string) {
+        this.issues.push({ path, message });
+    }
+
+    obj(parent: Obj, key: string, path: string): Obj {
+        const v = parent[key];
+        if (isObj(v)) return v;
+        this.fail(path, v === undefined ? "missing" : "expected an object");
+        return {};
+    }
+
+    num(o: Obj, key: string, path: string, { min = -Infinity, max = Infinity, integer = false } = {}): number {
+        const v = o[key];
+        if (typeof v !== "number" || !Number.isFinite(v)) {
+            this.fail(path, v === undefined ? "missing" : `expected a number, got ${JSON.stringify(v)}`);
+            return min > -Infinity ? min : 0;
+        }
+        if (integer && !Number.isInteger(v)) this.fail(path, `expected an integer, got ${v}`);
+        else if (v < min || v > max) this.fail(path, `must be between ${min} and ${max}, got ${v}`);
+        return v;
+    }
+
+    optNum(o: Obj, key: string, path: string, range: { min?: number; max?: number; integer?: boolean } = {}) {
+        return o[key] === undefined ? undefined : this.num(o, key, path, range);
+    }
+
+    oneOf<T>(o: Obj, key: string, path: string, values: readonly T[]): T {
+        const v = o[key] as T;
+        if (!values.includes(v)) {
+            this.fail(path, v === undefined ? "missing" : `expected one of ${values.map(x => JSON.stringify(x)).join(", ")}, got ${JSON.stringify(v)}`);
+            return values[0];
+        }
+        return v;
+    }
+
+    str(o: Obj, key: string, path: string) {
+        const v = o[key];
+        if (typeof v === "string") return v;
+        this.fail(path, v === undefined ? "missing" : "expected a string");
+        return "";
+    }
+
+    bool(o: Obj, key: string, path: string) {
+        const v = o[key];
+        if (typeof v === "boolean") return v;
+        this.fail(path, v === undefined ? "missing" : "expected true or false");
+        return false;
+    }
+
+    // number[] with every entry finite; reports entries by index
+    numbers(o: Obj, key: string, path: string, length = -1) {
+        const v = o[key];
+        if (!Array.isArray(v)) {
+            this.fail(path, v === undefined ? "missing" : "expected an array of numbers");
+            return [];
+        }
+        v.forEach((x, i) => {
+            if (typeof x !== "number" || !Number.isFinite(x)) this.fail(`${path}[${i}]`, `expected a number, got ${JSON.stringify(x)}`);
+        });
+        if (length >= 0 && v.length !== length) this.fail(path, `expected ${length} values, got ${v.length}`);
+        return v as number[];
+    }
+}
+
+// "Imported network" with nothing imported (or one of another size) runs all-to-all,
+// so save it that way: a file topology without its network would not load back
+export function savedTopology(topology: Experiment["topology"]): Experiment["topology"] {
+    return topology.kind === "file" && !topology.network ? { ...topology, kind: "all" } : topology;
+}
+
+/**
+ * Validate a parsed (or raw JSON) experiment. Throws an ExperimentError
+ * listing every bad field; returns a typed copy otherwise.
+ */
+export function parseExperiment(input: unknown): Experiment {
+    const rd = new Reader();
+    let raw = input;
+    if (typeof input === "string") {
+        try {
+            raw = JSON.parse(input);
+        } catch (err) {
+            throw new ExperimentError([{ path: "(file)", message: `not valid JSON: ${(err as Error).message}` }]);
+        }
+    }
+    if (!isObj(raw)) throw new ExperimentError([{ path: "(file)", message: "expected a JSON object" }]);
+    if (raw.version !== EXPERIMENT_VERSION) {
+        throw new ExperimentError([{ path: "version", message: `unsupported version ${JSON.stringify(raw.version)} (expected ${EXPERIMENT_VERSION})` }]);
+    }
+
+    const seed = rd.optNum(raw, "seed", "seed", { min: 0, max: 2 ** 32 - 1, integer: true });
+    const N = rd.num(raw, "N", "N", { min: MIN_OSCILLATORS, max: MAX_OSCILLATORS, integer: true });
+
+    const m = rd.obj(raw, "model", "model");
+    const ig = rd.obj(raw, "integrator", "integrator");
+    const c = rd.obj(raw, "coupling", "coupling");
+    const w = rd.obj(raw, "omega", "omega");
+    const ph = rd.obj(raw, "phases", "phases");
+    const tp = rd.obj(raw, "topology", "topology");
+    const pp = rd.obj(raw, "populations", "populations");
+    const fc = rd.obj(raw, "forcing", "forcing");
+
+    const omegaMode = rd.oneOf(w, "mode", "omega.mode", OMEGA_MODES);
+    const phaseMode = rd.oneOf(ph, "mode", "phases.mode", PHASE_MODES);
+    const kind = rd.oneOf(tp, "kind", "topology.kind", TOPOLOGIES);
+
+    const count = rd.num(pp, "count", "populations.count", { min: 1, max: MAX_POPULATIONS, integer: true });
+    const specsRaw = Array.isArray(pp.specs) ? pp.specs : [];
+    if (!Array.isArray(pp.specs)) rd.fail("populations.specs", pp.specs === undefined ? "missing" : "expected an array");
+    else if (pp.specs.length !== count) rd.fail("populations.specs", `expected ${count} entries, got ${pp.specs.length}`);
+    const specs = specsRaw.map((s, a): FrequencySpec => {
+        const o = isObj(s) ? s : (rd.fail(`populations.specs[${a}]`, "expected an object"), {});
+        return {
+            kind: rd.oneOf(o, "kind", `populations.specs[${a}].kind`, ["gaussian", "cauchy", "uniform"] as const),
+            center: rd.num(o, "center", `populations.specs[${a}].center`),
+            width: rd.num(o, "width", `populations.specs[${a}].width`, { min: 0 }),
+        };
+    });
+
+    const targets = ((): ForcingTargets => {
+        const o = rd.obj(fc, "targets", "forcing.targets");
+        const k = rd.oneOf(o, "kind", "forcing.targets.kind", ["all", "range", "fraction"] as const);
+        if (k === "range") {
+            return {
+                kind: k,
+                from: rd.num(o, "from", "forcing.targets.from", { min: 0, integer: true }),
+                to: rd.num(o, "to", "forcing.targets.to", { min: 0, integer: true }),
+            };
+        }
+        if (k === "fraction") return { kind: k, p: rd.num(o, "p", "forcing.targets.p", { min: 0, max: 1 }) };
+        return { kind: "all" };
+    })();
+
+    let network: NonNullable<Experiment["topology"]["network"]> | undefined;
+    if (kind === "file") {
+        const o = rd.obj(tp, "network", "topology.network");
+        const n = rd.num(o, "n", "topology.network.n", { min: MIN_OSCILLATORS, max: MAX_OSCILLATORS, integer: true });
+        const edges: Array<[number, number, number]> = [];
+        if (!Array.isArray(o.edges)) rd.fail("topology.network.edges", "expected an array of [i, j, w]");
+        else {
+            o.edges.forEach((e, k) => {
+                const ok = Array.isArray(e) && e.length === 3 && e.every(x => typeof x === "number" && Number.isFinite(x))
+                    && Number.isInteger(e[0]) && Number.isInteger(e[1]) && e[0] >= 0 && e[1] >= 0 && e[0] < n && e[1] < n;
+                if (ok) edges.push(e as [number, number, number]);
+                else if (rd.issues.length < 50) rd.fail(`topology.network.edges[${k}]`, `expected [i, j, w] with 0 ≤ i, j < ${n}`);
+            });
+        }
+        network = { name: rd.str(o, "name", "topology.network.name"), n, edges };
+        if (n !== N) rd.fail("N", `must equal topology.network.n (${n}) for an imported network`);
+    }
+
+    const exp: Experiment = {
+        version: EXPERIMENT_VERSION,
+        ...(seed !== undefined ? { seed } : {}),
+        N,
+        K: rd.num(raw, "K", "K"),
+        dt: rd.num(raw, "dt", "dt", { min: 1e-5, max: 1 }),
+        noise: rd.num(raw, "noise", "noise", { min: 0 }),
+        speed: rd.num(raw, "speed", "speed", { min: 0.01, max: 100 }),
+        model: {
+            kind: rd.oneOf(m, "kind", "model.kind", MODEL_KINDS),
+            mass: rd.num(m, "mass", "model.mass", { min: 1e-6 }),
+            damping: rd.num(m, "damping", "model.damping", { min: 0 }),
+        },
+        integrator: {
+            method: rd.oneOf(ig, "method", "integrator.method", METHODS),
+            tol: rd.num(ig, "tol", "integrator.tol", { min: 1e-12, max: 1 }),
+        },
+        coupling: {
+            mode: rd.oneOf(c, "mode", "coupling.mode", ["sakaguchi", "fourier"] as const),
+            alphaDeg: rd.num(c, "alphaDeg", "coupling.alphaDeg"),
+            harmonic2: rd.num(c, "harmonic2", "coupling.harmonic2"),
+            fourier: rd.str(c, "fourier", "coupling.fourier"),
+        },
+        omega: {
+            mode: omegaMode,
+            gaussStd: rd.num(w, "gaussStd", "omega.gaussStd", { min: 0 }),
+            cauchyGamma: rd.num(w, "cauchyGamma", "omega.cauchyGamma", { min: 0 }),
+            bimodalOffset: rd.num(w, "bimodalOffset", "omega.bimodalOffset"),
+            uniRange: rd.num(w, "uniRange", "omega.uniRange", { min: 0 }),
+            powerP: rd.num(w, "powerP", "omega.powerP"),
+            genFraction: rd.num(w, "genFraction", "omega.genFraction", { min: 0, max: 1 }),
+            ...(omegaMode === "manual" ? { values: rd.numbers(w, "values", "omega.values") } : {}),
+        },
+        phases: {
+            mode: phaseMode,
+            clusterSpread: rd.num(ph, "clusterSpread", "phases.clusterSpread", { min: 0, max: 360 }),
+            ...(phaseMode === "manual" ? { values: rd.numbers(ph, "values", "phases.values") } : {}),
+        },
+        topology: {
+            kind,
+            erProb: rd.num(tp, "erProb", "topology.erProb", { min: 0, max: 1 }),
+            ringK: rd.num(tp, "ringK", "topology.ringK", { min: 1, integer: true }),
+            ringKernel: rd.oneOf(tp, "ringKernel", "topology.ringKernel", ["exp", "step"] as const),
+            ringRadius: rd.num(tp, "ringRadius", "topology.ringRadius", { min: 0 }),
+            latticeStencil: rd.oneOf(tp, "latticeStencil", "topology.latticeStencil", [4, 8] as const),
+            wsBeta: rd.num(tp, "wsBeta", "topology.wsBeta", { min: 0, max: 1 }),
+            baM: rd.num(tp, "baM", "topology.baM", { min: 1, integer: true }),
+            starHubs: rd.num(tp, "starHubs", "topology.starHubs", { min: 1, integer: true }),
+            weightMode: rd.oneOf(tp, "weightMode", "topology.weightMode", WEIGHT_MODES),
+            repulsiveFrac: rd.num(tp, "repulsiveFrac", "topology.repulsiveFrac", { min: 0, max: 1 }),
+            ...(network ? { network } : {}),
+        },
+        populations: { count, specs, matrix: rd.numbers(pp, "matrix", "populations.matrix", count * count) },
+        forcing: {
+            enabled: rd.bool(fc, "enabled", "forcing.enabled"),
+            amplitude: rd.num(fc, "amplitude", "forcing.amplitude"),
+            frequency: rd.num(fc, "frequency", "forcing.frequency"),
+            targets,
+        },
+        protocol: rd.str(raw, "protocol", "protocol"),
+    };
+    // the text fields are checked with their own parsers
+    if (exp.coupling.mode === "fourier") {
+        try {
+            parseFourier(exp.coupling.fourier);
+        } catch (err) {
+            rd.fail("coupling.fourier", (err as Error).message);
+        }
+    }
+    if (exp.protocol.trim() !== "") {
+        try {
+            parseSchedule(exp.protocol);
+        } catch (err) {
+            rd.fail("protocol", (err as Error).message);
+        }
+    }
+    if (rd.issues.length > 0) throw new ExperimentError(rd.issues);
+    return exp;
+}
+
+// ---- URL hash: #exp=<base64url(JSON)> ----
+const HASH_KEY = "exp=";
+
+function toBase64Url(text: string) {
+    const bytes = new TextEncoder().encode(text);
+    let bin = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+    const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(Uint8Array.from(bin, ch => ch.charCodeAt(0)));
+}
+
+export function experimentToHash(exp: Experiment) {
+    return `#${HASH_KEY}${toBase64Url(JSON.stringify(exp))}`;
+}
+
+// null when the hash carries no experiment; throws ExperimentError when it does but is invalid
+export function experimentFromHash(hash: string): Experiment | null {
+    const body = hash.replace(/^#/, "");
+    if (!body.startsWith(HASH_KEY)) return null;
+    let text: string;
+    try {
+        text = fromBase64Url(body.slice(HASH_KEY.length));
+    } catch {
+        throw new ExperimentError([{ path: "(link)", message: "the link's experiment data is corrupted" }]);
+    }
+    return parseExperiment(text);
+}
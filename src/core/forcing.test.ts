@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DrivePLV, forcingTargets } from "./forcing";
+import { KuramotoSystem } from "./kuramoto";
+import { Rng } from "./random";
+import { SAMPLE_STRIDE, SimRunner } from "./runner";
+
+function run(sys: KuramotoSystem, T: number, h: number) {
+    for (let k = 0; k < Math.round(T / h); k++) sys.step(h);
+}
+
+describe("external drive", () => {
+    it("locks a static drive at sin(θ) = ω / F", () => {
+        const sys = new KuramotoSystem(1, { K: 0, method: "rk4", forcing: { amplitude: 1, frequency: 0, targets: null } });
+        sys.omega[0] = 0.2;
+        run(sys, 30, 0.01);
+        expect(Math.sin(sys.theta[0])).toBeCloseTo(0.2, 6);
+    });
+
+    it("entrains within the Arnold tongue |Ω − ω| < F and only drives the targets", () => {
+        const sys = new KuramotoSystem(2, { K: 0, method: "rk4", forcing: { amplitude: 0.5, frequency: 1.3, targets: Uint8Array.from([1, 0]) } });
+        sys.omega.set([1, 1]);
+        run(sys, 60, 0.01);
+        const d = sys.drift();
+        expect(d[0]).toBeCloseTo(1.3, 6);
+        expect(d[1]).toBe(1);
+    });
+
+    it("ignores a target mask built for another N", () => {
+        const sys = new KuramotoSystem(3, { K: 0, forcing: { amplitude: 1, frequency: 0, targets: new Uint8Array(5).fill(1) } });
+        sys.theta.set([1, 1, 1]);
+        expect(Array.from(sys.drift())).toEqual([0, 0, 0]);
+    });
+
+    it("builds range and random target masks", () => {
+        expect(forcingTargets({ kind: "all" }, 4, new Rng(1))).toBeNull();
+        expect(Array.from(forcingTargets({ kind: "range", from: 1, to: 2 }, 4, new Rng(1))!)).toEqual([0, 1, 1, 0]);
+        const half = forcingTargets({ kind: "fraction", p: 0.5 }, 2000, new Rng(1))!;
+        expect(half.reduce((a, b) => a + b, 0) / 2000).toBeCloseTo(0.5, 1);
+    });
+});
+
+describe("drive PLV", () => {
+    function plvAfter(omega: number) {
+        const sys = new KuramotoSystem(1, { K: 0, method: "rk4", forcing: { amplitude: 0.5, frequency: 1, targets: null } });
+        sys.omega[0] = omega;
+        const runner = new SimRunner(sys);
+        runner.dt = 0.01;
+        runner.plv = new DrivePLV(5);
+        for (let k = 0; k < 400; k++) runner.advance(0.1, 1000);
+        const plv = runner.drainPLV()!;
+        expect(plv.length).toBe(runner.drainSamples().length / SAMPLE_STRIDE);
+        return plv[plv.length - 1];
+    }
+
+    it("approaches 1 when entrained and stays low when drifting", () => {
+        expect(plvAfter(1.2)).toBeGreaterThan(0.99);
+        expect(plvAfter(3)).toBeLessThan(0.3);
+    });
+
+    it("is absent without a drive", () => {
+        const runner = new SimRunner(new KuramotoSystem(2));
+        runner.plv = new DrivePLV();
+        runner.advance(0.1, 1000);
+        expect(runner.drainPLV()).toBeNull();
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { EdgeList, buildAdjacency, degree, edgeCount, findEdge, latticeDims, toCsr, weightEdges } from "./graph";
+import type { CsrGraph } from "./graph";
+import { rngStream } from "./random";
+
+const neighbours = (g: CsrGraph, i: number) => Array.from(g.colIdx.subarray(g.rowPtr[i], g.rowPtr[i + 1]));
+
+describe("toCsr", () => {
+    it("groups edges by row and sorts each row", () => {
+        const edges = new EdgeList();
+        edges.add(1, 2, 0.5);
+        edges.add(0, 2);
+        edges.add(1, 0, 2);
+        const g = toCsr(3, edges);
+        expect(Array.from(g.rowPtr)).toEqual([0, 1, 3, 3]);
+        expect(neighbours(g, 1)).toEqual([0, 2]);
+        expect(Array.from(g.weight.subarray(1, 3))).toEqual([2, 0.5]);
+        expect(g.strength[1]).toBe(2.5);
+        expect(findEdge(g, 1, 2)).toBe(2);
+        expect(findEdge(g, 2, 1)).toBe(-1);
+    });
+});
+
+describe("buildAdjacency", () => {
+    it("returns null for all-to-all", () => {
+        expect(buildAdjacency("all", 10)).toBeNull();
+    });
+
+    it("builds a 2-neighbour ring", () => {
+        const g = buildAdjacency("ring", 6)!;
+        expect(neighbours(g, 0)).toEqual([1, 5]);
+        expect(neighbours(g, 3)).toEqual([2, 4]);
+        expect(edgeCount(g)).toBe(12);
+        expect(degree(buildAdjacency("ring", 2)!, 0)).toBe(1);
+    });
+
+    it("builds an undirected Erdős–Rényi graph with mean degree ≈ p (N - 1)", () => {
+        const N = 400, p = 0.05;
+        const g = buildAdjacency("er", N, { p }, rngStream(1, "graph"))!;
+        const meanDeg = edgeCount(g) / N;
+        expect(meanDeg).toBeGreaterThan(0.85 * p * (N - 1));
+        expect(meanDeg).toBeLessThan(1.15 * p * (N - 1));
+        for (let i = 0; i < N; i += 37) {
+            for (const j of neighbours(g, i)) {
+                expect(j).not.toBe(i);
+                expect(findEdge(g, j, i)).toBeGreaterThanOrEqual(0);
+            }
+        }
+    });
+});
+
+describe("extended topologies", () => {
+    const degrees = (g: CsrGraph) => Array.from({ length: g.n }, (_, i) => degree(g, i));
+
+    it("builds a k-nearest ring", () => {
+        const g = buildAdjacency("ring", 10, { k: 4 })!;
+        expect(neighbours(g, 0)).toEqual([1, 2, 8, 9]);
+        expect(new Set(degrees(g))).toEqual(new Set([4]));
+    });
+
+    it("builds periodic 2D lattices with 4- and 8-neighbour stencils", () => {
+        expect(latticeDims(25)).toEqual({ cols: 5, rows: 5 });
+        const g4 = buildAdjacency("lattice", 25, { stencil: 4 })!;
+        expect(neighbours(g4, 0)).toEqual([1, 4, 5, 20]);
+        expect(new Set(degrees(g4))).toEqual(new Set([4]));
+        const g8 = buildAdjacency("lattice", 25, { stencil: 8 })!;
+        expect(new Set(degrees(g8))).toEqual(new Set([8]));
+    });
+
+    it("Watts–Strogatz keeps the ring at β = 0 and the edge count when rewiring", () => {
+        const ring = buildAdjacency("ring", 60, { k: 4 })!;
+        const ws0 = buildAdjacency("ws", 60, { k: 4, beta: 0 }, rngStream(3, "graph"))!;
+        expect(Array.from(ws0.colIdx)).toEqual(Array.from(ring.colIdx));
+        const ws = buildAdjacency("ws", 60, { k: 4, beta: 0.3 }, rngStream(3, "graph"))!;
+        expect(edgeCount(ws)).toBe(edgeCount(ring));
+        expect(Array.from(ws.colIdx)).not.toEqual(Array.from(ring.colIdx));
+    });
+
+    it("Barabási–Albert attaches m edges per new node", () => {
+        const N = 200, m = 3;
+        const g = buildAdjacency("ba", N, { m }, rngStream(4, "graph"))!;
+        expect(edgeCount(g) / 2).toBe((m * (m + 1)) / 2 + m * (N - m - 1));
+        expect(Math.min(...degrees(g))).toBeGreaterThanOrEqual(m);
+        // hubs emerge: the max degree is far above the mean 2m
+        expect(Math.max(...degrees(g))).toBeGreaterThan(4 * m);
+    });
+
+    it("builds star and multi-hub graphs", () => {
+        const star = buildAdjacency("star", 8)!;
+        expect(degrees(star)).toEqual([7, 1, 1, 1, 1, 1, 1, 1]);
+        const two = buildAdjacency("star", 8, { hubs: 2 })!;
+        expect(degrees(two)).toEqual([4, 4, 1, 1, 1, 1, 1, 1]);
+    });
+});
+
+describe("weightEdges", () => {
+    it("draws symmetric signed weights with the requested repulsive fraction", () => {
+        const g = buildAdjacency("er", 300, { p: 0.1 }, rngStream(2, "graph"))!;
+        weightEdges(g, "signed", rngStream(2, "weights"), 0.3);
+        let neg = 0;
+        for (let i = 0; i < g.n; i++) {
+            for (let k = g.rowPtr[i]; k < g.rowPtr[i + 1]; k++) {
+                const j = g.colIdx[k];
+                expect(Math.abs(g.weight[k])).toBe(1);
+                expect(g.weight[findEdge(g, j, i)]).toBe(g.weight[k]);
+                if (g.weight[k] < 0) neg++;
+            }
+        }
+        expect(neg / edgeCount(g)).toBeCloseTo(0.3, 1);
+        expect(g.strength[0]).toBe(degree(g, 0));
+    });
+});
@@ -0,0 +1,310 @@
+// ----------------------- Network topologies -----------------------
+import type { Rng } from "./random";
+
+/**
+ * Compressed-sparse-row graph: the neighbours of i are
+ * colIdx[rowPtr[i] .. rowPtr[i+1]) with coupling weights in `weight`.
+ * Rows are sorted by column. `strength[i]` = Σ_j |w_ij| is what the
+ * coupling is normalized by (the degree, for unit weights).
+ */
+export interface CsrGraph {
+    n: number;
+    rowPtr: Int32Array;
+    colIdx: Int32Array;
+    weight: Float64Array;
+    strength: Float64Array;
+}
+
+// null marks all-to-all (handled by the order-parameter fast path)
+export type Adjacency = CsrGraph | null;
+
+export type Topology = "all" | "ring" | "nonlocal" | "er" | "lattice" | "ws" | "ba" | "star";
+
+export type RingKernel = "exp" | "step";
+
+export interface GraphParams {
+    p?: number; // ER edge probability
+    k?: number; // ring / Watts–Strogatz: neighbours per node (k/2 on each side)
+    stencil?: 4 | 8; // 2D lattice neighbourhood (von Neumann / Moore)
+    beta?: number; // Watts–Strogatz rewiring probability
+    m?: number; // Barabási–Albert: edges per new node
+    hubs?: number; // star: number of (mutually connected) hubs
+    kernel?: RingKernel; // nonlocal ring: e^{−d/R} or 1 for d ≤ R
+    radius?: number; // nonlocal ring: kernel radius R (in sites)
+}
+
+export type WeightMode = "unit" | "random" | "signed";
+
+// Directed edge accumulator; use addUndirected for symmetric coupling
+export class EdgeList {
+    src: number[] = [];
+    dst: number[] = [];
+    w: number[] = [];
+
+    add(i: number, j: number, w = 1) {
+        this.src.push(i);
+        this.dst.push(j);
+        this.w.push(w);
+    }
+
+    addUndirected(i: number, j: number, w = 1) {
+        this.add(i, j, w);
+        this.add(j, i, w);
+    }
+
+    get length() {
+        return this.src.length;
+    }
+
+    private seen = new Set<number>();
+
+    // Undirected simple-graph edge: skips self-loops and repeats, reports whether it was added
+    link(i: number, j: number, w = 1) {
+        if (i === j) return false;
+        const key = Math.min(i, j) * 67_108_864 + Math.max(i, j); // 2^26 > any N we build
+        if (this.seen.has(key)) return false;
+        this.seen.add(key);
+        this.addUndirected(i, j, w);
+        return true;
+    }
+}
+
+export function computeStrength(g: Pick<CsrGraph, "n" | "rowPtr" | "weight">) {
+    const s = new Float64Array(g.n);
+    for (let i = 0; i < g.n; i++) {
+        for (let k = g.rowPtr[i]; k < g.rowPtr[i + 1]; k++) s[i] += Math.abs(g.weight[k]);
+    }
+    return s;
+}
+
+// Counting sort by source row, then sort each row by column
+export function toCsr(n: number, edges: EdgeList): CsrGraph {
+    const m = edges.length;
+    const rowPtr = new Int32Array(n + 1);
+    for (let e = 0; e < m; e++) rowPtr[edges.src[e] + 1]++;
+    for (let i = 0; i < n; i++) rowPtr[i + 1] += rowPtr[i];
+
+    const fill = rowPtr.slice(0, n);
+    const colIdx = new Int32Array(m);
+    const weight = new Float64Array(m);
+    for (let e = 0; e < m; e++) {
+        const k = fill[edges.src[e]]++;
+        colIdx[k] = edges.dst[e];
+        weight[k] = edges.w[e];
+    }
+
+    for (let i = 0; i < n; i++) {
+        const a = rowPtr[i], b = rowPtr[i + 1];
+        if (b - a < 2) continue;
+        const order = Array.from({ length: b - a }, (_, k) => a + k).sort((x, y) => colIdx[x] - colIdx[y]);
+        const c = order.map(k => colIdx[k]);
+        const w = order.map(k => weight[k]);
+        colIdx.set(c, a);
+        weight.set(w, a);
+    }
+
+    const g = { n, rowPtr, colIdx, weight };
+    return { ...g, strength: computeStrength(g) };
+}
+
+export function degree(g: CsrGraph, i: number) {
+    return g.rowPtr[i + 1] - g.rowPtr[i];
+}
+
+export function edgeCount(g: CsrGraph) {
+    return g.rowPtr[g.n];
+}
+
+// position of edge i→j in colIdx, or -1
+export function findEdge(g: CsrGraph, i: number, j: number) {
+    let lo = g.rowPtr[i], hi = g.rowPtr[i + 1] - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const c = g.colIdx[mid];
+        if (c === j) return mid;
+        if (c < j) lo = mid + 1;
+        else hi = mid - 1;
+    }
+    return -1;
+}
+
+/**
+ * Re-draw edge weights in place, keeping w_ij = w_ji for edges present in
+ * both directions. "random": U(0, 1]; "signed": ±1 with a fraction
+ * `repulsive` of negative (repulsive) edges; "unit": all 1.
+ */
+export function weightEdges(g: CsrGraph, mode: WeightMode, rng: Rng, repulsive = 0.2) {
+    const draw = () => {
+        if (mode === "random") return 1 - rng.uniform();
+        if (mode === "signed") return rng.uniform() < repulsive ? -1 : 1;
+        return 1;
+    };
+    for (let i = 0; i < g.n; i++) {
+        for (let k = g.rowPtr[i]; k < g.rowPtr[i + 1]; k++) {
+            const j = g.colIdx[k];
+            if (j < i && findEdge(g, j, i) >= 0) continue; // already set from the other side
+            const w = draw();
+            g.weight[k] = w;
+            const back = j === i ? -1 : findEdge(g, j, i);
+            if (back >= 0) g.weight[back] = w;
+        }
+    }
+    g.strength = computeStrength(g);
+    return g;
+}
+
+// Near-square grid for the 2D lattice: cols = ⌈√N⌉, rows = ⌈N / cols⌉
+export function latticeDims(N: number) {
+    const cols = Math.max(1, Math.ceil(Math.sqrt(N)));
+    return { cols, rows: Math.ceil(N / cols) };
+}
+
+function ringEdges(edges: EdgeList, N: number, k: number) {
+    const half = Math.max(1, Math.floor(k / 2));
+    for (let i = 0; i < N; i++) {
+        for (let d = 1; d <= half; d++) edges.link(i, (i + d) % N);
+    }
+}
+
+// Nonlocal ring: weight G(d) by index distance d. The exponential kernel is
+// cut off at 6R (G < 0.25%) so the graph stays sparse.
+function nonlocalRingEdges(edges: EdgeList, N: number, kernel: RingKernel, R: number) {
+    const r = Math.max(1, R);
+    const maxD = Math.min(Math.floor(N / 2), kernel === "step" ? Math.floor(r) : Math.ceil(6 * r));
+    for (let i = 0; i < N; i++) {
+        for (let d = 1; d <= maxD; d++) edges.link(i, (i + d) % N, kernel === "step" ? 1 : Math.exp(-d / r));
+    }
+}
+
+// Periodic lattice; with a ragged last row (N not rows·cols) the wrap skips missing sites
+function latticeEdges(edges: EdgeList, N: number, stencil: 4 | 8) {
+    const { cols, rows } = latticeDims(N);
+    const offsets = stencil === 8
+        ? [[0, 1], [1, -1], [1, 0], [1, 1]]
+        : [[0, 1], [1, 0]];
+    for (let i = 0; i < N; i++) {
+        const r = Math.floor(i / cols), c = i % cols;
+        for (const [dr, dc] of offsets) {
+            const j = ((r + dr + rows) % rows) * cols + ((c + dc + cols) % cols);
+            if (j < N) edges.link(i, j);
+        }
+    }
+}
+
+// Watts–Strogatz: k-ring, then each ring edge (i, i+d) is rewired to a random target with prob. β
+function smallWorldEdges(edges: EdgeList, N: number, k: number, beta: number, rng: Rng) {
+    const half = Math.max(1, Math.floor(k / 2));
+    const nbrs = Array.from({ length: N }, () => new Set<number>());
+    const connect = (a: number, b: number) => {
+        nbrs[a].add(b);
+        nbrs[b].add(a);
+    };
+    for (let i = 0; i < N; i++) {
+        for (let d = 1; d <= half; d++) {
+            const j = (i + d) % N;
+            if (j !== i) connect(i, j);
+        }
+    }
+    for (let d = 1; d <= half; d++) {
+        for (let i = 0; i < N; i++) {
+            const j = (i + d) % N;
+            if (rng.uniform() >= beta || !nbrs[i].has(j)) continue;
+            if (nbrs[i].size >= N - 1) continue; // already linked to everyone
+            let cand: number;
+            do cand = Math.floor(rng.uniform() * N); while (cand === i || nbrs[i].has(cand));
+            nbrs[i].delete(j);
+            nbrs[j].delete(i);
+            connect(i, cand);
+        }
+    }
+    for (let i = 0; i < N; i++) {
+        for (const j of nbrs[i]) if (i < j) edges.link(i, j);
+    }
+}
+
+// Barabási–Albert: seed clique of m+1 nodes, then preferential attachment with m edges per node
+function scaleFreeEdges(edges: EdgeList, N: number, m: number, rng: Rng) {
+    const m0 = Math.min(N, m + 1);
+    const targets: number[] = []; // every edge endpoint once => sampling ∝ degree
+    for (let i = 0; i < m0; i++) {
+        for (let j = i + 1; j < m0; j++) {
+            edges.link(i, j);
+            targets.push(i, j);
+        }
+    }
+    for (let v = m0; v < N; v++) {
+        const chosen = new Set<number>();
+        while (chosen.size < Math.min(m, v)) {
+            const u = targets.length > 0 ? targets[Math.floor(rng.uniform() * targets.length)] : Math.floor(rng.uniform() * v);
+            chosen.add(u);
+        }
+        for (const u of chosen) {
+            edges.link(v, u);
+            targets.push(v, u);
+        }
+    }
+}
+
+// Hub-and-spoke: the first h nodes form a clique, every other node hangs off hub (i mod h)
+function starEdges(edges: EdgeList, N: number, hubs: number) {
+    const h = Math.max(1, Math.min(hubs, N));
+    for (let i = 0; i < h; i++) for (let j = i + 1; j < h; j++) edges.link(i, j);
+    for (let i = h; i < N; i++) edges.link(i, i % h);
+}
+
+export function buildAdjacency(type: string, N: number, params: GraphParams = {}, rng?: Rng): Adjacency {
+    if (type === "all") {
+        // Use a marker, the integrator treats it specially
+        return null; // null indicates all-to-all for fast path
+    }
+    const needRng = () => {
+        if (!rng) throw new Error(`buildAdjacency: the "${type}" graph needs an Rng`);
+        return rng;
+    };
+    const edges = new EdgeList();
+    switch (type) {
+        case "ring":
+            ringEdges(edges, N, params.k ?? 2);
+            break;
+        case "nonlocal":
+            nonlocalRingEdges(edges, N, params.kernel ?? "exp", params.radius ?? 4);
+            break;
+        case "er":
+            erdosRenyiEdges(edges, N, params.p ?? 0.05, needRng());
+            break;
+        case "lattice":
+            latticeEdges(edges, N, params.stencil ?? 4);
+            break;
+        case "ws":
+            smallWorldEdges(edges, N, params.k ?? 4, params.beta ?? 0.1, needRng());
+            break;
+        case "ba":
+            scaleFreeEdges(edges, N, Math.max(1, params.m ?? 2), needRng());
+            break;
+        case "star":
+            starEdges(edges, N, params.hubs ?? 1);
+            break;
+        default:
+            return null;
+    }
+    return toCsr(N, edges);
+}
+
+// Batagelj–Brandes geometric skipping: O(N + M) instead of O(N²) coin flips
+function erdosRenyiEdges(edges: EdgeList, N: number, p: number, rng: Rng) {
+    if (p >= 1) {
+        for (let i = 0; i < N; i++) for (let j = i + 1; j < N; j++) edges.addUndirected(i, j);
+        return;
+    }
+    if (p <= 0) return;
+    const logq = Math.log(1 - p);
+    let v = 1, w = -1;
+    while (v < N) {
+        w += 1 + Math.floor(Math.log(1 - rng.uniform()) / logq);
+        while (w >= v && v < N) {
+            w -= v;
+            v++;
+        }
+        if (v < N) edges.addUndirected(v, w);
+    }
+}
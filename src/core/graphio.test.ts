@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { GraphImportError, detectGraphFormat, parseAdjacencyCsv, parseEdgeList, parseGraphML } from "./graphio";
+import { edgeCount, findEdge } from "./graph";
+
+const issuesOf = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (e) {
+        if (e instanceof GraphImportError) return e.issues;
+        throw e;
+    }
+    throw new Error("expected a GraphImportError");
+};
+
+describe("parseEdgeList", () => {
+    it("reads weighted, labelled, undirected edges", () => {
+        const { graph, labels } = parseEdgeList("# comment\nsource,target,weight\na,b,2\nb c 0.5\nc a\n");
+        expect(labels).toEqual(["a", "b", "c"]);
+        expect(edgeCount(graph)).toBe(6);
+        expect(graph.weight[findEdge(graph, 1, 0)]).toBe(2);
+        expect(graph.weight[findEdge(graph, 2, 1)]).toBe(0.5);
+        expect(graph.strength[1]).toBe(2.5);
+    });
+
+    it("keeps an edge listed in both directions once", () => {
+        const { graph } = parseEdgeList("a b 2\nb a 2\nb c\nc b\nc b\n");
+        expect(edgeCount(graph)).toBe(4);
+        expect(graph.weight[findEdge(graph, 0, 1)]).toBe(2);
+        expect(graph.strength[1]).toBe(3);
+    });
+
+    it("orders numeric ids numerically", () => {
+        expect(parseEdgeList("10 2\n2 1\n").labels).toEqual(["1", "2", "10"]);
+    });
+
+    it("reports malformed rows with line numbers", () => {
+        const issues = issuesOf(() => parseEdgeList("0 1\n1\n\n2 3 heavy\n"));
+        expect(issues.map(i => i.line)).toEqual([2, 4]);
+    });
+});
+
+describe("parseAdjacencyCsv", () => {
+    it("reads a labelled square matrix, keeping direction and weight", () => {
+        const { graph, labels } = parseAdjacencyCsv(",x,y,z\nx,0,1,0\ny,1,0,-2\nz,0,3,0\n");
+        expect(labels).toEqual(["x", "y", "z"]);
+        expect(graph.weight[findEdge(graph, 1, 2)]).toBe(-2);
+        expect(graph.weight[findEdge(graph, 2, 1)]).toBe(3);
+        expect(findEdge(graph, 0, 2)).toBe(-1);
+    });
+
+    it("reports ragged and non-numeric rows", () => {
+        const issues = issuesOf(() => parseAdjacencyCsv("0,1,0\n1,0\n0,x,0\n"));
+        expect(issues).toEqual([
+            { line: 2, message: "expected 3 columns (square matrix), got 2" },
+            { line: 3, message: 'column 2: "x" is not a number' },
+        ]);
+    });
+});
+
+describe("parseGraphML", () => {
+    const doc = `<?xml version="1.0"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="w" for="edge" attr.name="weight" attr.type="double"/>
+  <graph edgedefault="undirected">
+    <node id="n0"/>
+    <node id="n1"/>
+    <node id="n2"/>
+    <edge source="n0" target="n1"><data key="w">0.25</data></edge>
+    <edge source="n1" target="n2"/>
+  </graph>
+</graphml>`;
+
+    it("reads nodes, edges and weights", () => {
+        const { graph, labels } = parseGraphML(doc);
+        expect(labels).toEqual(["n0", "n1", "n2"]);
+        expect(edgeCount(graph)).toBe(4);
+        expect(graph.weight[findEdge(graph, 1, 0)]).toBe(0.25);
+    });
+
+    it("keeps an undirected edge listed in both directions once", () => {
+        const { graph } = parseGraphML(doc.replace("</graph>", '<edge source="n1" target="n0"><data key="w">0.25</data></edge></graph>'));
+        expect(edgeCount(graph)).toBe(4);
+        expect(graph.strength[1]).toBe(1.25);
+    });
+
+    it("reports edges to unknown nodes by line", () => {
+        const issues = issuesOf(() => parseGraphML(doc.replace('target="n2"', 'target="n9"')));
+        expect(issues).toEqual([{ line: 9, message: 'edge refers to unknown node "n9"' }]);
+    });
+
+    it("parses a large file in linear time and still finds late lines", () => {
+        const nodes = Array.from({ length: 5000 }, (_, i) => `    <node id="n${i}"/>`);
+        const edges = Array.from({ length: 10_000 }, (_, k) => `    <edge source="n${k % 5000}" target="n${(k * 7 + 1) % 5000}"/>`);
+        const wrap = (body: string[]) => `<graphml>\n  <graph edgedefault="directed">\n${body.join("\n")}\n  </graph>\n</graphml>`;
+        const start = performance.now();
+        expect(parseGraphML(wrap([...nodes, ...edges])).labels).toHaveLength(5000);
+        expect(performance.now() - start).toBeLessThan(2000); // was ~14 s with a rescan per element
+        edges[9999] = `    <edge source="n9" target="n99999"/>`;
+        expect(issuesOf(() => parseGraphML(wrap([...nodes, ...edges])))).toEqual([{ line: 3 + 5000 + 9999, message: 'edge refers to unknown node "n99999"' }]);
+    });
+});
+
+describe("detectGraphFormat", () => {
+    it("recognises each format", () => {
+        expect(detectGraphFormat("net.graphml", "")).toBe("graphml");
+        expect(detectGraphFormat("net.csv", "0,1,0,0\n1,0,1,0\n0,1,0,1\n0,0,1,0\n")).toBe("matrix");
+        expect(detectGraphFormat("net.txt", "0 1\n1 2\n2 3\n3 4\n4 0\n")).toBe("edgelist");
+    });
+
+    it("tells small matrices from short edge lists", () => {
+        expect(detectGraphFormat("net.txt", "0,1,1\n1,0,1\n1,1,0\n")).toBe("matrix");
+        expect(detectGraphFormat("net.txt", "0 1\n1 0\n")).toBe("matrix");
+        expect(detectGraphFormat("net.csv", ",a,b\na,0,2\nb,2,0\n")).toBe("matrix");
+        expect(detectGraphFormat("net.csv", "1,1,1\n1,1,1\n1,1,1\n")).toBe("matrix");
+        expect(detectGraphFormat("net.txt", "0 1 0.5\n1 2 0.5\n2 0 1\n")).toBe("edgelist");
+        expect(detectGraphFormat("net.txt", "0 1\n1 2\n")).toBe("edgelist");
+        expect(detectGraphFormat("net.csv", "source,target\na,b\nb,c\n")).toBe("edgelist");
+    });
+});
@@ -0,0 +1,250 @@
+// ----------------------- Network import -----------------------
+// Parsers for user-supplied networks. Each one returns a CSR graph plus the
+// node labels in index order, or throws a GraphImportError listing every
+// malformed line, so nothing is imported half-way.
+import { EdgeList, toCsr } from "./graph";
+import type { CsrGraph } from "./graph";
+
+export type GraphFormat = "edgelist" | "matrix" | "graphml";
+
+export interface ParseIssue {
+    line: number; // 1-based
+    message: string;
+}
+
+export interface ImportedGraph {
+    graph: CsrGraph;
+    labels: string[];
+    format: GraphFormat;
+}
+
+export class GraphImportError extends Error {
+    issues: ParseIssue[];
+
+    constructor(issues: ParseIssue[]) {
+        const first = issues[0];
+        super(first ? `line ${first.line}: ${first.message}` : "empty network file");
+        this.name = "GraphImportError";
+        this.issues = issues;
+    }
+}
+
+const isComment = (s: string) => s.startsWith("#") || s.startsWith("%") || s.startsWith("//");
+const isNumber = (s: string) => s.trim() !== "" && Number.isFinite(Number(s));
+
+// Node labels → indices; all-numeric labels are ordered numerically, others by first appearance
+function indexLabels(raw: string[]) {
+    const unique = Array.from(new Set(raw));
+    if (unique.every(isNumber)) unique.sort((a, b) => Number(a) - Number(b));
+    const index = new Map(unique.map((l, i) => [l, i]));
+    return { labels: unique, index };
+}
+
+/**
+ * Edge list: one `source target [weight]` per line, separated by whitespace or
+ * commas. Edges are undirected; self-loops are dropped (they add no coupling),
+ * and a pair listed again, in either direction, keeps its first weight.
+ * An optional header row (source/target/...) and #, % or // comments are skipped.
+ */
+export function parseEdgeList(text: string): ImportedGraph {
+    const issues: ParseIssue[] = [];
+    const rows: Array<{ a: string; b: string; w: number }> = [];
+    const lines = text.split(/\r?\n/);
+    let seenData = false;
+    lines.forEach((raw, k) => {
+        const line = raw.trim();
+        if (line === "" || isComment(line)) return;
+        const tok = line.split(/[\s,;]+/).filter(t => t.length > 0);
+        if (!seenData && /^(source|target|from|to|node|src|dst|u|v|i|j)$/i.test(tok[0] ?? "")) {
+            seenData = true; // header
+            return;
+        }
+        seenData = true;
+        if (tok.length < 2 || tok.length > 3) {
+            issues.push({ line: k + 1, message: `expected "source target [weight]", got ${tok.length} field(s)` });
+            return;
+        }
+        const w = tok.length === 3 ? Number(tok[2]) : 1;
+        if (!Number.isFinite(w)) {
+            issues.push({ line: k + 1, message: `weight "${tok[2]}" is not a number` });
+            return;
+        }
+        rows.push({ a: tok[0], b: tok[1], w });
+    });
+    if (issues.length > 0 || rows.length === 0) throw new GraphImportError(issues);
+
+    const { labels, index } = indexLabels(rows.flatMap(r => [r.a, r.b]));
+    const edges = new EdgeList();
+    for (const { a, b, w } of rows) edges.link(index.get(a)!, index.get(b)!, w);
+    return { graph: toCsr(labels.length, edges), labels, format: "edgelist" };
+}
+
+/**
+ * Adjacency matrix CSV: N rows of N numbers, entry (i, j) is the weight with
+ * which i is coupled to j (0 = no edge). An optional header row and/or
+ * leading label column are recognised by being non-numeric.
+ */
+export function parseAdjacencyCsv(text: string): ImportedGraph {
+    const issues: ParseIssue[] = [];
+    const rows: Array<{ line: number; cells: string[] }> = [];
+    text.split(/\r?\n/).forEach((raw, k) => {
+        const line = raw.trim();
+        if (line === "" || isComment(line)) return;
+        rows.push({ line: k + 1, cells: line.split(/\s*[,;\t]\s*|\s+/).filter(c => c.length > 0) });
+    });
+    if (rows.length === 0) throw new GraphImportError([]);
+
+    let labels: string[] | null = null;
+    if (!rows[0].cells.every(isNumber)) {
+        // header row; drop a leading corner cell if the body has row labels
+        const header = rows.shift()!.cells;
+        labels = header.length === rows.length + 1 ? header.slice(1) : header;
+    }
+    const rowLabels = rows.length > 0 && rows.every(r => !isNumber(r.cells[0] ?? ""));
+    const n = rows.length;
+
+    const edges = new EdgeList();
+    const rowNames: string[] = [];
+    rows.forEach((r, i) => {
+        const cells = rowLabels ? r.cells.slice(1) : r.cells;
+        if (rowLabels) rowNames.push(r.cells[0]);
+        if (cells.length !== n) {
+            issues.push({ line: r.line, message: `expected ${n} columns (square matrix), got ${cells.length}` });
+            return;
+        }
+        cells.forEach((c, j) => {
+            const w = Number(c);
+            if (!isNumber(c)) {
+                issues.push({ line: r.line, message: `column ${j + 1}: "${c}" is not a number` });
+            } else if (w !== 0 && i !== j) {
+                edges.add(i, j, w);
+            }
+        });
+    });
+    if (issues.length > 0) throw new GraphImportError(issues);
+
+    const names = labels ?? (rowLabels ? rowNames : Array.from({ length: n }, (_, i) => String(i)));
+    return { graph: toCsr(n, edges), labels: names, format: "matrix" };
+}
+
+// ---- GraphML (regex scanner: enough for the flat files network tools export) ----
+
+const attr = (tag: string, name: string) => {
+    const m = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(tag);
+    return m ? (m[2] ?? m[3]) : undefined;
+};
+
+export function parseGraphML(text: string): ImportedGraph {
+    const issues: ParseIssue[] = [];
+    // offsets where each line starts, built on the first lookup (only issues need it)
+    let starts: number[] | null = null;
+    const lineAt = (pos: number) => {
+        if (!starts) {
+            starts = [0];
+            for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) starts.push(i + 1);
+        }
+        let lo = 0, hi = starts.length - 1; // last start ≤ pos
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (starts[mid] <= pos) lo = mid;
+            else hi = mid - 1;
+        }
+        return lo + 1;
+    };
+
+    if (!/<graphml[\s>]/.test(text)) throw new GraphImportError([{ line: 1, message: "no <graphml> root element" }]);
+    const graphTag = /<graph\b[^>]*>/.exec(text);
+    if (!graphTag) throw new GraphImportError([{ line: 1, message: "no <graph> element" }]);
+    const directed = attr(graphTag[0], "edgedefault") === "directed";
+
+    // <key id="d0" for="edge" attr.name="weight" .../>
+    let weightKey: string | undefined;
+    for (const m of text.matchAll(/<key\b[^>]*>/g)) {
+        const name = attr(m[0], "attr.name");
+        if ((attr(m[0], "for") ?? "edge") === "edge" && name && /^weight$/i.test(name)) weightKey = attr(m[0], "id");
+    }
+
+    const labels: string[] = [];
+    const index = new Map<string, number>();
+    for (const m of text.matchAll(/<node\b[^>]*>/g)) {
+        const id = attr(m[0], "id");
+        if (id === undefined) {
+            issues.push({ line: lineAt(m.index!), message: "<node> without an id" });
+        } else if (index.has(id)) {
+            issues.push({ line: lineAt(m.index!), message: `duplicate node id "${id}"` });
+        } else {
+            index.set(id, labels.length);
+            labels.push(id);
+        }
+    }
+
+    const edges = new EdgeList();
+    // self-closing <edge/> or <edge>…</edge> with optional <data> children
+    for (const m of text.matchAll(/<edge\b([^>]*?)(\/>|>([\s\S]*?)<\/edge>)/g)) {
+        const tag = m[1];
+        const src = attr(tag, "source"), dst = attr(tag, "target");
+        if (src === undefined || dst === undefined) {
+            issues.push({ line: lineAt(m.index!), message: "<edge> needs source and target" });
+            continue;
+        }
+        const i = index.get(src), j = index.get(dst);
+        if (i === undefined || j === undefined) {
+            issues.push({ line: lineAt(m.index!), message: `edge refers to unknown node "${i === undefined ? src : dst}"` });
+            continue;
+        }
+        let w = 1;
+        if (weightKey && m[3]) {
+            const data = new RegExp(`<data\\b[^>]*\\bkey\\s*=\\s*["']${weightKey}["'][^>]*>([^<]*)</data>`).exec(m[3]);
+            if (data) {
+                w = Number(data[1].trim());
+                if (!Number.isFinite(w)) {
+                    issues.push({ line: lineAt(m.index!), message: `weight "${data[1].trim()}" is not a number` });
+                    continue;
+                }
+            }
+        }
+        const edgeDirected = attr(tag, "directed");
+        if (i === j) continue;
+        if (edgeDirected === "true" || (directed && edgeDirected !== "false")) edges.add(i, j, w);
+        else edges.link(i, j, w); // "a b" and "b a" are the same undirected edge
+    }
+    if (issues.length > 0) throw new GraphImportError(issues);
+    if (labels.length === 0) throw new GraphImportError([{ line: 1, message: "the graph has no nodes" }]);
+
+    return { graph: toCsr(labels.length, edges), labels, format: "graphml" };
+}
+
+// A square table of numbers (after an optional header row and label column).
+// Edge lists have 2–3 columns, so only up to 3×3 is ambiguous: there a zero
+// diagonal (no self-coupling) or a symmetric .csv decides for the matrix.
+function looksLikeMatrix(lines: string[], ext: string) {
+    let rows = lines.map(l => l.split(/\s*[,;\t]\s*|\s+/).filter(c => c.length > 0));
+    if (rows.length > 0 && !rows[0].every(isNumber)) rows = rows.slice(1);
+    if (rows.length > 0 && rows.every(r => !isNumber(r[0] ?? ""))) rows = rows.map(r => r.slice(1));
+    const n = rows.length;
+    if (n < 2 || !rows.every(r => r.length === n && r.every(isNumber))) return false;
+    if (n > 3) return true;
+    const v = rows.map(r => r.map(Number));
+    const zeroDiagonal = v.every((r, i) => r[i] === 0);
+    const symmetric = v.every((r, i) => r.every((x, j) => x === v[j][i]));
+    return zeroDiagonal || (ext === "csv" && symmetric);
+}
+
+// Pick a parser from the file name, falling back to sniffing the content
+export function detectGraphFormat(name: string, text: string): GraphFormat {
+    const ext = name.toLowerCase().split(".").pop() ?? "";
+    if (ext === "graphml" || ext === "xml" || /<graphml[\s>]/.test(text.slice(0, 2000))) return "graphml";
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l !== "" && !isComment(l));
+    return looksLikeMatrix(lines, ext) ? "matrix" : "edgelist";
+}
+
+export function parseGraph(text: string, format: GraphFormat): ImportedGraph {
+    switch (format) {
+        case "edgelist":
+            return parseEdgeList(text);
+        case "matrix":
+            return parseAdjacencyCsv(text);
+        case "graphml":
+            return parseGraphML(text);
+    }
+}
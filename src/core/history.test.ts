@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { OrderHistory, historyToDelimited, statMean } from "./history";
+
+describe("OrderHistory", () => {
+    it("keeps recent samples raw and merges older ones into min/mean/max bins", () => {
+        const h = new OrderHistory(4, 2, 2);
+        for (let k = 0; k < 20; k++) h.push(k, { r: k / 20 });
+        expect(h.size).toBe(20);
+        expect(h.start).toBe(0);
+        expect(h.end).toBe(19);
+        expect(h.recent().length).toBeLessThan(8);
+        const bins = h.bins();
+        expect(bins.reduce((n, b) => n + b.count, 0)).toBe(20);
+        expect(bins.length).toBeLessThan(20);
+        // oldest first, no gaps or overlaps
+        for (let k = 1; k < bins.length; k++) expect(bins[k].t0).toBe(bins[k - 1].t1 + 1);
+        const first = bins[0];
+        expect(first.series.r.min).toBe(first.t0 / 20);
+        expect(first.series.r.max).toBe(first.t1 / 20);
+        expect(statMean(first.series.r)).toBeCloseTo((first.t0 + first.t1) / 40, 12);
+    });
+
+    it("stays small over a long run", () => {
+        const h = new OrderHistory(1000, 200, 8);
+        for (let k = 0; k < 1_000_000; k++) h.push(k * 0.01, { r: Math.sin(k) });
+        expect(h.size).toBe(1_000_000);
+        expect(h.bins().length).toBeLessThan(2000 + 5 * 400);
+        expect(h.start).toBe(0);
+    });
+
+    it("averages a series only over the samples that carry it", () => {
+        const h = new OrderHistory(2, 100, 4);
+        h.push(0, { r: 1 });
+        h.push(1, { r: 1, plv: 0.5 });
+        h.push(2, { r: 0, plv: 0.7, rOA: undefined });
+        h.push(3, { r: 0, plv: NaN });
+        const [b] = h.view(0, 3, 1);
+        expect(b.count).toBe(4);
+        expect(statMean(b.series.r)).toBe(0.5);
+        expect(statMean(b.series.plv)).toBeCloseTo(0.6, 12);
+        expect(b.series.rOA).toBeUndefined();
+        expect(h.seriesNames()).toEqual(["r", "plv"]);
+    });
+
+    it("views a time range with a bounded number of points", () => {
+        const h = new OrderHistory(100, 100, 8);
+        for (let k = 0; k <= 1000; k++) h.push(k, { r: k });
+        const v = h.view(200, 300, 20);
+        expect(v.length).toBeLessThanOrEqual(20);
+        expect(v[0].t1).toBeGreaterThanOrEqual(200);
+        expect(v[v.length - 1].t0).toBeLessThanOrEqual(300);
+    });
+
+    it("starts over when time goes backwards and round-trips its state", () => {
+        const h = new OrderHistory(2, 2, 2);
+        for (let k = 0; k < 10; k++) h.push(k, { r: 0.1 * k });
+        const copy = OrderHistory.fromState(h.state(), 2, 2, 2);
+        expect(copy.bins()).toEqual(h.bins());
+        h.push(0, { r: 1 });
+        expect(h.size).toBe(1);
+        expect(copy.size).toBe(10);
+    });
+});
+
+describe("historyToDelimited", () => {
+    const h = new OrderHistory(2, 10, 2);
+    for (let k = 0; k < 5; k++) h.push(k, k < 3 ? { r: k } : { r: k, plv: 1 });
+
+    it("writes the raw tail", () => {
+        expect(historyToDelimited(h, "raw", ",")).toBe("t,r,plv\n2,2,\n3,3,1\n4,4,1");
+    });
+
+    it("writes the whole run with bin statistics", () => {
+        const lines = historyToDelimited(h, "decimated", "\t").split("\n");
+        expect(lines[0]).toBe("t\tt_start\tt_end\tn\tr\tr_min\tr_max\tplv\tplv_min\tplv_max");
+        expect(lines[1]).toBe("0.5\t0\t1\t2\t0.5\t0\t1\t\t\t");
+        expect(lines[2]).toBe("2\t2\t2\t1\t2\t2\t2\t\t\t");
+        expect(lines).toHaveLength(5);
+    });
+});
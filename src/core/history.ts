@@ -0,0 +1,192 @@
+// ----------------------- Order-parameter history -----------------------
+// r(t) and its companion series (r_OA, drive PLV, r_a, …) for the whole run in
+// bounded memory. Recent samples are kept at full resolution; older ones are
+// merged into bins that keep each series' mean, min and max. A level that
+// reaches twice its capacity merges its oldest half `factor`-to-one into the
+// next, coarser level, so memory grows with the log of the run length.
+
+export type SeriesValues = Record<string, number>; // series name → value
+
+export interface HistoryPoint {
+    t: number;
+    values: SeriesValues;
+}
+
+export interface Stat {
+    sum: number;
+    n: number; // samples that carried this series
+    min: number;
+    max: number;
+}
+
+export interface HistoryBin {
+    t0: number; // first sample time
+    t1: number; // last sample time
+    count: number; // samples merged
+    series: Record<string, Stat>;
+}
+
+// Plain-data copy, for snapshots and their files
+export interface HistoryState {
+    raw: HistoryPoint[];
+    levels: HistoryBin[][]; // levels[0] = finest bins; higher = older and coarser
+}
+
+function mergeInto(out: Record<string, Stat>, name: string, s: Stat) {
+    const o = out[name];
+    if (!o) {
+        out[name] = { ...s };
+        return;
+    }
+    o.sum += s.sum;
+    o.n += s.n;
+    if (s.min < o.min) o.min = s.min;
+    if (s.max > o.max) o.max = s.max;
+}
+
+export function mergeBins(bins: HistoryBin[]): HistoryBin {
+    const series: Record<string, Stat> = {};
+    let count = 0;
+    for (const b of bins) {
+        count += b.count;
+        for (const name in b.series) mergeInto(series, name, b.series[name]);
+    }
+    return { t0: bins[0].t0, t1: bins[bins.length - 1].t1, count, series };
+}
+
+export function pointBin(p: HistoryPoint): HistoryBin {
+    const series: Record<string, Stat> = {};
+    for (const name in p.values) {
+        const v = p.values[name];
+        series[name] = { sum: v, n: 1, min: v, max: v };
+    }
+    return { t0: p.t, t1: p.t, count: 1, series };
+}
+
+export const statMean = (s: Stat) => s.sum / s.n;
+
+export class OrderHistory {
+    readonly rawCapacity: number;
+    readonly capacity: number;
+    readonly factor: number;
+    private raw: HistoryPoint[] = [];
+    private levels: HistoryBin[][] = [];
+
+    constructor(rawCapacity = 10_000, capacity = 2_000, factor = 8) {
+        this.rawCapacity = rawCapacity;
+        this.capacity = capacity;
+        this.factor = factor;
+    }
+
+    clear() {
+        this.raw = [];
+        this.levels = [];
+    }
+
+    // Non-finite and undefined values are left out; time going backwards starts over
+    push(t: number, values: Record<string, number | undefined>) {
+        if (this.raw.length > 0 && t < this.raw[this.raw.length - 1].t) this.clear();
+        const kept: SeriesValues = {};
+        for (const name in values) {
+            const v = values[name];
+            if (v !== undefined && Number.isFinite(v)) kept[name] = v;
+        }
+        this.raw.push({ t, values: kept });
+        if (this.raw.length >= 2 * this.rawCapacity) {
+            const old = this.raw.splice(0, this.rawCapacity).map(pointBin);
+            this.pushDown(0, old);
+        }
+    }
+
+    private pushDown(level: number, bins: HistoryBin[]) {
+        const merged: HistoryBin[] = [];
+        for (let k = 0; k < bins.length; k += this.factor) merged.push(mergeBins(bins.slice(k, k + this.factor)));
+        const lv = (this.levels[level] ??= []);
+        lv.push(...merged);
+        if (lv.length >= 2 * this.capacity) this.pushDown(level + 1, lv.splice(0, this.capacity));
+    }
+
+    // samples pushed since the last clear
+    get size() {
+        let n = this.raw.length;
+        for (const lv of this.levels) for (const b of lv) n += b.count;
+        return n;
+    }
+
+    get start() {
+        for (let l = this.levels.length - 1; l >= 0; l--) if (this.levels[l].length > 0) return this.levels[l][0].t0;
+        return this.raw.length > 0 ? this.raw[0].t : NaN;
+    }
+
+    get end() {
+        if (this.raw.length > 0) return this.raw[this.raw.length - 1].t;
+        for (const lv of this.levels) if (lv.length > 0) return lv[lv.length - 1].t1;
+        return NaN;
+    }
+
+    // the full-resolution tail, oldest first
+    recent(): readonly HistoryPoint[] {
+        return this.raw;
+    }
+
+    // Whole run, oldest first, at the resolution it is stored at
+    bins(): HistoryBin[] {
+        return this.view(-Infinity, Infinity, Infinity);
+    }
+
+    // Bins overlapping [from, to], merged in runs so there are at most `maxPoints`
+    view(from: number, to: number, maxPoints: number): HistoryBin[] {
+        const out: HistoryBin[] = [];
+        for (let l = this.levels.length - 1; l >= 0; l--) {
+            for (const b of this.levels[l]) if (b.t1 >= from && b.t0 <= to) out.push(b);
+        }
+        for (const p of this.raw) if (p.t >= from && p.t <= to) out.push(pointBin(p));
+        if (out.length <= maxPoints) return out;
+        const g = Math.ceil(out.length / maxPoints);
+        const merged: HistoryBin[] = [];
+        for (let k = 0; k < out.length; k += g) merged.push(mergeBins(out.slice(k, k + g)));
+        return merged;
+    }
+
+    // Series names in order of first appearance
+    seriesNames() {
+        const names = new Set<string>();
+        for (const b of this.bins()) for (const name in b.series) names.add(name);
+        return Array.from(names);
+    }
+
+    state(): HistoryState {
+        return structuredClone({ raw: this.raw, levels: this.levels });
+    }
+
+    static fromState(s: HistoryState, rawCapacity?: number, capacity?: number, factor?: number) {
+        const h = new OrderHistory(rawCapacity, capacity, factor);
+        const copy = structuredClone(s);
+        h.raw = copy.raw;
+        h.levels = copy.levels;
+        return h;
+    }
+}
+
+/**
+ * Table of the history, one row per line:
+ *   raw       – the full-resolution tail: t, then one column per series
+ *   decimated – the whole run as stored: t (bin centre), t_start, t_end, n,
+ *               then each series' mean, _min and _max
+ */
+export function historyToDelimited(h: OrderHistory, mode: "raw" | "decimated", sep: string) {
+    const names = h.seriesNames();
+    if (mode === "raw") {
+        const rows = h.recent().map(p => [p.t, ...names.map(n => p.values[n] ?? "")].join(sep));
+        return [["t", ...names].join(sep), ...rows].join("\n");
+    }
+    const head = ["t", "t_start", "t_end", "n", ...names.flatMap(n => [n, `${n}_min`, `${n}_max`])];
+    const rows = h.bins().map(b => {
+        const cols = names.flatMap((n): (number | string)[] => {
+            const s = b.series[n];
+            return s ? [statMean(s), s.min, s.max] : ["", "", ""];
+        });
+        return [(b.t0 + b.t1) / 2, b.t0, b.t1, b.count, ...cols].join(sep);
+    });
+    return [head.join(sep), ...rows].join("\n");
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { eulerStep, heunStep, rk45Advance, rk4Step, stochasticHeunStep, Workspace } from "./integrators";
+import type { Rhs } from "./integrators";
+import { KuramotoSystem } from "./kuramoto";
+
+// y' = -y + sin(t), y(0) = 1  →  y(t) = 1.5 e^{-t} + (sin t - cos t) / 2
+const f: Rhs = (t, y, out) => { out[0] = -y[0] + Math.sin(t); };
+const exact = (t: number) => 1.5 * Math.exp(-t) + 0.5 * (Math.sin(t) - Math.cos(t));
+
+type Stepper = typeof eulerStep;
+
+function errorAt(stepper: Stepper, h: number, T = 2) {
+    const ws = new Workspace();
+    const y = new Float64Array([1]);
+    const steps = Math.round(T / h);
+    for (let s = 0; s < steps; s++) stepper(f, s * h, y, h, ws);
+    return Math.abs(y[0] - exact(T));
+}
+
+describe("fixed-step integrators", () => {
+    it.each([
+        ["euler", eulerStep, 1],
+        ["heun", heunStep, 2],
+        ["rk4", rk4Step, 4],
+    ] as const)("%s converges at its nominal order", (_name, stepper, order) => {
+        const ratio = errorAt(stepper, 0.02) / errorAt(stepper, 0.01);
+        expect(Math.log2(ratio)).toBeCloseTo(order, 0);
+    });
+});
+
+describe("rk45Advance", () => {
+    it("meets the requested tolerance over a large macro step", () => {
+        const ws = new Workspace();
+        const y = new Float64Array([1]);
+        rk45Advance(f, 0, y, 2, 1e-9, ws);
+        expect(Math.abs(y[0] - exact(2))).toBeLessThan(1e-7);
+    });
+
+    it("still covers the whole interval when the tolerance can't be met", () => {
+        const ws = new Workspace();
+        const y = new Float64Array([1]);
+        // tol = 0 rejects every trial: the step shrinks to nothing and the guard trips
+        const h = rk45Advance(f, 0, y, 1, 0, ws);
+        expect(Math.abs(y[0] - exact(1))).toBeLessThan(0.05); // one RK4 step of 1 s (y(0) would be off by 0.3)
+        expect(h).toBe(1);
+    });
+
+    it("returns a usable step-size hint", () => {
+        const ws = new Workspace();
+        const y = new Float64Array([1]);
+        const h = rk45Advance(f, 0, y, 0.5, 1e-6, ws);
+        expect(h).toBeGreaterThan(0);
+        expect(Number.isFinite(h)).toBe(true);
+    });
+});
+
+describe("stochasticHeunStep", () => {
+    it("reduces to deterministic Heun when σ = 0", () => {
+        const ws = new Workspace();
+        const a = new Float64Array([1]);
+        const b = new Float64Array([1]);
+        stochasticHeunStep(f, 0, a, 0.1, 0, () => 1, ws);
+        heunStep(f, 0, b, 0.1, ws);
+        expect(a[0]).toBe(b[0]);
+    });
+});
+
+describe("KuramotoSystem integrators", () => {
+    // N = 2, Δω = 0: φ = θ2 - θ1 obeys φ' = -K sin φ, so tan(φ/2) = tan(φ0/2) e^{-K t}
+    const phiExact = (phi0: number, K: number, t: number) =>
+        2 * Math.atan(Math.tan(phi0 / 2) * Math.exp(-K * t));
+
+    it.each(["euler", "heun", "rk4", "rk45"] as const)("%s tracks the two-oscillator solution", (method) => {
+        const K = 4;
+        const sys = new KuramotoSystem(2, { K, method, tol: 1e-8 });
+        sys.theta.set([-1, 1]);
+        for (let s = 0; s < 50; s++) sys.step(0.02);
+        const phi = sys.theta[1] - sys.theta[0];
+        const tol = method === "euler" ? 1e-2 : method === "heun" ? 1e-3 : 1e-6;
+        expect(Math.abs(phi - phiExact(2, K, 1))).toBeLessThan(tol);
+    });
+
+    it("is more accurate with RK4 than Euler at large K", () => {
+        const errFor = (method: "euler" | "rk4") => {
+            const sys = new KuramotoSystem(2, { K: 20, method });
+            sys.theta.set([-1.4, 1.4]);
+            for (let s = 0; s < 10; s++) sys.step(0.04);
+            return Math.abs(sys.theta[1] - sys.theta[0] - phiExact(2.8, 20, 0.4));
+        };
+        expect(errFor("rk4")).toBeLessThan(errFor("euler"));
+    });
+});
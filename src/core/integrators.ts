@@ -0,0 +1,174 @@
+// ----------------------- ODE / SDE steppers -----------------------
+// All steppers advance y in place by one step of size h for dy/dt = f(t, y).
+// Noise is additive white noise σ dW on every component.
+
+export type IntegratorName = "euler" | "heun" | "rk4" | "rk45";
+
+export type Rhs = (t: number, y: Float64Array, out: Float64Array) => void;
+
+export const INTEGRATORS: Array<{ value: IntegratorName; label: string }> = [
+    { value: "euler", label: "Euler" },
+    { value: "heun", label: "Heun (RK2)" },
+    { value: "rk4", label: "Classic RK4" },
+    { value: "rk45", label: "Adaptive RK45 (Dormand–Prince)" },
+];
+
+// Scratch buffers, reallocated only when the system size changes
+export class Workspace {
+    k: Float64Array[] = [];
+    tmp = new Float64Array(0);
+    y5 = new Float64Array(0);
+    dW = new Float64Array(0);
+
+    ensure(n: number) {
+        if (this.tmp.length === n) return;
+        this.k = Array.from({ length: 7 }, () => new Float64Array(n));
+        this.tmp = new Float64Array(n);
+        this.y5 = new Float64Array(n);
+        this.dW = new Float64Array(n);
+    }
+}
+
+export function eulerStep(f: Rhs, t: number, y: Float64Array, h: number, ws: Workspace) {
+    ws.ensure(y.length);
+    const k1 = ws.k[0];
+    f(t, y, k1);
+    for (let i = 0; i < y.length; i++) y[i] += h * k1[i];
+}
+
+export function heunStep(f: Rhs, t: number, y: Float64Array, h: number, ws: Workspace) {
+    ws.ensure(y.length);
+    const [k1, k2] = ws.k;
+    const yp = ws.tmp;
+    f(t, y, k1);
+    for (let i = 0; i < y.length; i++) yp[i] = y[i] + h * k1[i];
+    f(t + h, yp, k2);
+    for (let i = 0; i < y.length; i++) y[i] += 0.5 * h * (k1[i] + k2[i]);
+}
+
+export function rk4Step(f: Rhs, t: number, y: Float64Array, h: number, ws: Workspace) {
+    ws.ensure(y.length);
+    const [k1, k2, k3, k4] = ws.k;
+    const yt = ws.tmp;
+    const n = y.length;
+    f(t, y, k1);
+    for (let i = 0; i < n; i++) yt[i] = y[i] + 0.5 * h * k1[i];
+    f(t + 0.5 * h, yt, k2);
+    for (let i = 0; i < n; i++) yt[i] = y[i] + 0.5 * h * k2[i];
+    f(t + 0.5 * h, yt, k3);
+    for (let i = 0; i < n; i++) yt[i] = y[i] + h * k3[i];
+    f(t + h, yt, k4);
+    for (let i = 0; i < n; i++) y[i] += (h / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]);
+}
+
+// ---- Dormand–Prince 5(4) tableau ----
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+    [],
+    [1 / 5],
+    [3 / 40, 9 / 40],
+    [44 / 45, -56 / 15, 32 / 9],
+    [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+    [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+    [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+// One trial DP step: writes the 5th-order solution into ws.y5, returns the scaled error norm
+function dormandPrinceTrial(f: Rhs, t: number, y: Float64Array, h: number, tol: number, ws: Workspace) {
+    const n = y.length;
+    const k = ws.k;
+    const yt = ws.tmp;
+    f(t, y, k[0]);
+    for (let s = 1; s < 7; s++) {
+        const a = DP_A[s];
+        for (let i = 0; i < n; i++) {
+            let acc = 0;
+            for (let j = 0; j < s; j++) acc += a[j] * k[j][i];
+            yt[i] = y[i] + h * acc;
+        }
+        f(t + DP_C[s] * h, yt, k[s]);
+    }
+    let errMax = 0;
+    for (let i = 0; i < n; i++) {
+        let y5 = 0, e = 0;
+        for (let s = 0; s < 7; s++) {
+            y5 += DP_B5[s] * k[s][i];
+            e += (DP_B5[s] - DP_B4[s]) * k[s][i];
+        }
+        ws.y5[i] = y[i] + h * y5;
+        const sc = tol * (1 + Math.max(Math.abs(y[i]), Math.abs(ws.y5[i])));
+        errMax = Math.max(errMax, Math.abs(h * e) / sc);
+    }
+    return errMax;
+}
+
+const RK45_MAX_TRIALS = 100_000;
+
+/**
+ * Adaptive Dormand–Prince: advances y by exactly H using as many accepted
+ * sub-steps as the tolerance requires. `hGuess` is the sub-step to try first
+ * (pass back the returned value on the next call to reuse it). If the
+ * tolerance can't be met within RK45_MAX_TRIALS trials (stiff input, tol too
+ * tight), the rest of the interval is covered by one RK4 step, so y always
+ * ends at t + H like the clock does.
+ */
+export function rk45Advance(f: Rhs, t: number, y: Float64Array, H: number, tol: number, ws: Workspace, hGuess = H) {
+    ws.ensure(y.length);
+    const tEnd = t + H;
+    const eps = 1e-12 * Math.max(1, Math.abs(tEnd));
+    let h = Math.max(hGuess, 1e-9);
+    let trials = 0;
+    while (tEnd - t > eps) {
+        if (trials++ >= RK45_MAX_TRIALS) {
+            rk4Step(f, t, y, tEnd - t, ws);
+            break;
+        }
+        const hTry = Math.min(h, tEnd - t);
+        const err = dormandPrinceTrial(f, t, y, hTry, tol, ws);
+        // standard step-size controller: safety factor 0.9, growth limited to [0.2, 5]
+        const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -1 / 5)));
+        if (err <= 1) {
+            y.set(ws.y5);
+            t += hTry;
+            // a step truncated to hit tEnd says nothing new about the natural step size
+            if (hTry === h) h *= factor;
+        } else {
+            h = hTry * factor;
+        }
+    }
+    return Number.isFinite(h) && h > 0 ? h : H; // a tripped guard leaves no useful hint
+}
+
+// ---- Stochastic schemes for dy = f dt + σ dW (additive noise) ----
+// `from` limits the noise to y[from..] (e.g. only the velocities of a
+// second-order system); earlier components are integrated deterministically.
+
+export function eulerMaruyamaStep(
+    f: Rhs, t: number, y: Float64Array, h: number, sigma: number, normal: () => number, ws: Workspace, from = 0,
+) {
+    ws.ensure(y.length);
+    const k1 = ws.k[0];
+    const sq = sigma * Math.sqrt(h);
+    f(t, y, k1);
+    for (let i = 0; i < y.length; i++) y[i] += h * k1[i] + (i >= from ? sq * normal() : 0);
+}
+
+// Stochastic Heun: predictor–corrector with the same Wiener increment in both stages
+export function stochasticHeunStep(
+    f: Rhs, t: number, y: Float64Array, h: number, sigma: number, normal: () => number, ws: Workspace, from = 0,
+) {
+    ws.ensure(y.length);
+    const [k1, k2] = ws.k;
+    const yp = ws.tmp;
+    const dW = ws.dW;
+    const sq = sigma * Math.sqrt(h);
+    f(t, y, k1);
+    for (let i = 0; i < y.length; i++) {
+        dW[i] = i >= from ? sq * normal() : 0;
+        yp[i] = y[i] + h * k1[i] + dW[i];
+    }
+    f(t + h, yp, k2);
+    for (let i = 0; i < y.length; i++) y[i] += 0.5 * h * (k1[i] + k2[i]) + dW[i];
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import { evalCoupling, sakaguchi } from "./coupling";
+import { KuramotoSystem, computeOrder, daidoOrders } from "./kuramoto";
+import { EdgeList, buildAdjacency, toCsr } from "./graph";
+import { TAU, wrapAngle } from "./utils";
+
+function splay(N: number) {
+    const th = new Float64Array(N);
+    for (let i = 0; i < N; i++) th[i] = wrapAngle((i / N) * TAU);
+    return th;
+}
+
+function run(sys: KuramotoSystem, T: number, h: number) {
+    const steps = Math.round(T / h);
+    for (let s = 0; s < steps; s++) sys.step(h);
+}
+
+describe("computeOrder", () => {
+    it("is 1 for identical phases", () => {
+        const { r, psi } = computeOrder(new Float64Array(10).fill(0.7));
+        expect(r).toBeCloseTo(1, 12);
+        expect(psi).toBeCloseTo(0.7, 12);
+    });
+
+    it("is 0 for an evenly spread (splay) state", () => {
+        expect(computeOrder(splay(16)).r).toBeCloseTo(0, 12);
+    });
+
+    it("matches the one-at-a-time Daido parameters", () => {
+        const th = Float64Array.from({ length: 25 }, (_, i) => Math.sin(1.7 * i) * 3);
+        const Z = daidoOrders(th, 4);
+        expect(Z).toHaveLength(4);
+        Z.forEach((z, k) => {
+            const ref = computeOrder(th, k + 1);
+            expect(z.r).toBeCloseTo(ref.r, 12);
+            expect(z.psi).toBeCloseTo(ref.psi, 12);
+        });
+        // two antipodal clusters: r = 0 but r_2 = 1
+        const [z1, z2] = daidoOrders(Float64Array.from([0.3, 0.3, 0.3 + Math.PI, 0.3 + Math.PI]), 2);
+        expect(z1.r).toBeCloseTo(0, 12);
+        expect(z2.r).toBeCloseTo(1, 12);
+    });
+});
+
+describe("KuramotoSystem", () => {
+    it("synchronizes identical oscillators under all-to-all coupling (r → 1)", () => {
+        const sys = new KuramotoSystem(50, { K: 1 });
+        // perturbed splay state: r starts near 0
+        sys.theta.set(splay(50));
+        for (let i = 0; i < 50; i++) sys.theta[i] += 0.05 * Math.sin(3 * i);
+        sys.omega.fill(0.4);
+        expect(sys.order().r).toBeLessThan(0.1);
+
+        run(sys, 60, 0.02);
+        expect(sys.order().r).toBeGreaterThan(0.999);
+    });
+
+    it("synchronizes identical oscillators on a ring from a nearly synced start", () => {
+        const sys = new KuramotoSystem(20, { K: 1, adj: buildAdjacency("ring", 20) });
+        for (let i = 0; i < 20; i++) sys.theta[i] = 0.3 * Math.cos(i);
+        run(sys, 40, 0.02);
+        expect(sys.order().r).toBeGreaterThan(0.999);
+    });
+
+    it("rotates freely at ω when K = 0", () => {
+        const sys = new KuramotoSystem(3, { K: 0 });
+        sys.omega.set([0.1, -0.2, 0.3]);
+        run(sys, 10, 0.01);
+        expect(sys.t).toBeCloseTo(10, 9);
+        for (let i = 0; i < 3; i++) {
+            expect(wrapAngle(sys.theta[i] - sys.omega[i] * 10)).toBeCloseTo(0, 9);
+        }
+    });
+
+    it("reports the all-to-all drift ω_i + K r sin(ψ - θ_i)", () => {
+        const sys = new KuramotoSystem(4, { K: 2 });
+        sys.theta.set([0, 0.5, 1, -1]);
+        sys.omega.set([0.1, 0.2, 0.3, 0.4]);
+        const { r, psi } = sys.order();
+        const d = sys.drift();
+        for (let i = 0; i < 4; i++) {
+            expect(d[i]).toBeCloseTo(sys.omega[i] + 2 * r * Math.sin(psi - sys.theta[i]), 12);
+        }
+    });
+
+    it("uses degree-normalized coupling on a graph", () => {
+        // complete graph: (K/(N-1)) Σ_j sin(θ_j - θ_i) = K N/(N-1) r sin(ψ - θ_i)
+        const N = 5;
+        const edges = new EdgeList();
+        for (let i = 0; i < N; i++) for (let j = i + 1; j < N; j++) edges.addUndirected(i, j);
+        const adj = toCsr(N, edges);
+        const sys = new KuramotoSystem(N, { K: 1.5, adj });
+        sys.theta.set([0.1, 1.2, -0.7, 2.5, -2.9]);
+        const { r, psi } = sys.order();
+        const d = sys.drift();
+        for (let i = 0; i < N; i++) {
+            expect(d[i]).toBeCloseTo(1.5 * N / (N - 1) * r * Math.sin(psi - sys.theta[i]), 12);
+        }
+    });
+
+    it("weights the graph coupling and lets repulsive edges desynchronize", () => {
+        // two nodes joined by a single edge of weight w: φ' = -2K sign(w) sin φ
+        const edges = new EdgeList();
+        edges.addUndirected(0, 1, -0.5);
+        const sys = new KuramotoSystem(2, { K: 1, adj: toCsr(2, edges) });
+        sys.theta.set([0, 0.3]);
+        const d = sys.drift();
+        expect(d[0]).toBeCloseTo(-Math.sin(0.3), 12);
+        expect(d[1]).toBeCloseTo(Math.sin(0.3), 12);
+        run(sys, 30, 0.02);
+        expect(Math.abs(wrapAngle(sys.theta[1] - sys.theta[0]))).toBeCloseTo(Math.PI, 3);
+    });
+
+    it("keeps phases wrapped to [-π, π]", () => {
+        const sys = new KuramotoSystem(8, { K: 0 });
+        sys.omega.fill(3);
+        run(sys, 20, 0.05);
+        for (const th of sys.theta) {
+            expect(Math.abs(th)).toBeLessThanOrEqual(Math.PI);
+        }
+    });
+});
+
+describe("inertial model", () => {
+    it("relaxes each free node to θ' = P / d", () => {
+        const sys = new KuramotoSystem(2, { model: "inertial", mass: 0.5, damping: 2, K: 0, method: "rk4" });
+        sys.omega.set([1, -3]);
+        run(sys, 20, 0.01);
+        expect(sys.velocity[0]).toBeCloseTo(0.5, 6);
+        expect(sys.velocity[1]).toBeCloseTo(-1.5, 6);
+        expect(Array.from(sys.drift())).toEqual(Array.from(sys.velocity));
+    });
+
+    it("locks a generator–consumer pair at sin(θ1 − θ2) = 2P/K", () => {
+        const sys = new KuramotoSystem(2, { model: "inertial", mass: 1, damping: 1, K: 4, method: "rk4" });
+        sys.omega.set([0.5, -0.5]);
+        run(sys, 40, 0.01);
+        expect(Math.abs(sys.velocity[0])).toBeLessThan(1e-6);
+        expect(Math.sin(sys.theta[0] - sys.theta[1])).toBeCloseTo(0.25, 6);
+    });
+
+    it("puts noise on θ'' only", () => {
+        const sys = new KuramotoSystem(3, { model: "inertial", K: 0, noise: 1 });
+        sys.step(0.01);
+        expect(Array.from(sys.theta)).toEqual([0, 0, 0]);
+        expect(sys.velocity.some(v => v !== 0)).toBe(true);
+    });
+
+    it("clones its velocity and parameters", () => {
+        const sys = new KuramotoSystem(2, { model: "inertial", mass: 2, damping: 0.3 });
+        sys.velocity.set([1, 2]);
+        const c = sys.clone();
+        c.velocity[0] = 5;
+        expect(c.model).toBe("inertial");
+        expect(c.mass).toBe(2);
+        expect(c.damping).toBe(0.3);
+        expect(sys.velocity[0]).toBe(1);
+    });
+});
+
+describe("coupling function", () => {
+    const N = 40;
+    function randomState() {
+        const sys = new KuramotoSystem(N, { K: 1.7 });
+        for (let i = 0; i < N; i++) {
+            sys.theta[i] = wrapAngle(Math.sin(3.1 * i) * 4);
+            sys.omega[i] = Math.cos(1.3 * i);
+        }
+        return sys;
+    }
+    // direct O(N²) reference
+    function direct(sys: KuramotoSystem) {
+        return Array.from(sys.theta, (ti, i) => {
+            let s = 0;
+            for (const tj of sys.theta) s += evalCoupling(sys.coupling, tj - ti);
+            return sys.omega[i] + (sys.K / N) * s;
+        });
+    }
+
+    it("keeps the all-to-all Z_m sum equal to the direct sum", () => {
+        const sys = randomState();
+        sys.coupling = [...sakaguchi(0.7, -0.4), { m: 3, a: 0.2, b: 0.5 }];
+        const d = sys.drift();
+        direct(sys).forEach((v, i) => expect(d[i]).toBeCloseTo(v, 10));
+    });
+
+    it("applies H on graphs edge by edge", () => {
+        const sys = randomState();
+        const edges = new EdgeList();
+        edges.addUndirected(0, 1, 1);
+        edges.addUndirected(1, 2, 1);
+        sys.adj = toCsr(N, edges);
+        sys.coupling = sakaguchi(0.5);
+        const d = sys.drift();
+        expect(d[0]).toBeCloseTo(sys.omega[0] + sys.K * Math.sin(sys.theta[1] - sys.theta[0] - 0.5), 12);
+        expect(d[5]).toBe(sys.omega[5]);
+    });
+
+    it("settles into two antipodal clusters under a dominant second harmonic", () => {
+        const sys = new KuramotoSystem(60, { K: 2, method: "rk4", coupling: [{ m: 2, a: 1, b: 0 }] });
+        sys.theta.set(splay(60));
+        for (let i = 0; i < 60; i++) sys.theta[i] += 0.1 * Math.sin(7 * i);
+        run(sys, 40, 0.05);
+        expect(computeOrder(sys.theta, 2).r).toBeGreaterThan(0.99);
+        expect(sys.order().r).toBeLessThan(0.5);
+    });
+});
+
+describe("pinned oscillators", () => {
+    it("holds a fixed pin in place despite coupling and noise", () => {
+        const sys = new KuramotoSystem(6, { K: 3, noise: 0.5, method: "heun" });
+        sys.theta.set([1, 0, 0.2, -0.3, 0.5, -1]);
+        sys.pins = [{ index: 0, frequency: 0 }];
+        run(sys, 10, 0.01);
+        expect(sys.theta[0]).toBe(1);
+        expect(sys.drift()[0]).toBe(0);
+    });
+
+    it("entrains the rest to a pacemaker", () => {
+        const sys = new KuramotoSystem(5, { K: 4, method: "rk4" });
+        sys.omega.set([0, 0.1, -0.1, 0.2, -0.2]);
+        sys.pins = [{ index: 0, frequency: 0.5 }];
+        run(sys, 40, 0.01);
+        const d = sys.drift();
+        for (const v of d) expect(v).toBeCloseTo(0.5, 6);
+    });
+
+    it("pins the inertial model's velocity too", () => {
+        const sys = new KuramotoSystem(3, { model: "inertial", K: 1, method: "rk4" });
+        sys.pins = [{ index: 2, frequency: -1 }];
+        run(sys, 1, 0.01);
+        expect(sys.velocity[2]).toBe(-1);
+        expect(sys.theta[2]).toBeCloseTo(-1, 9);
+    });
+});
@@ -0,0 +1,373 @@
+// ----------------------- Kuramoto engine -----------------------
+// Framework-free model state + integrator. No React, no DOM: usable from
+// the component, a Worker, or a plain Node script/test.
+import { SINE_COUPLING, evalCoupling, isPureSine, type CouplingFunction } from "./coupling";
+import { drivenMask, type Forcing } from "./forcing";
+import type { Adjacency } from "./graph";
+import {
+    eulerMaruyamaStep, eulerStep, heunStep, rk45Advance, rk4Step, stochasticHeunStep, Workspace,
+} from "./integrators";
+import type { IntegratorName, Rhs } from "./integrators";
+import { populationSizes, type Populations } from "./populations";
+import { Rng } from "./random";
+import { wrapAngle } from "./utils";
+
+export interface OrderParameter {
+    r: number;
+    psi: number;
+}
+
+// ---- Core math: order parameter r·e^{iψ} = (1/N) Σ e^{iθ_j} ----
+// m > 1 gives the generalized (Daido) order parameter Z_m = (1/N) Σ e^{imθ_j}
+export function computeOrder(th: Float64Array, m = 1): OrderParameter {
+    let cx = 0, sx = 0;
+    for (let i = 0; i < th.length; i++) {
+        cx += Math.cos(m * th[i]);
+        sx += Math.sin(m * th[i]);
+    }
+    cx /= th.length; sx /= th.length;
+    const r = Math.hypot(cx, sx);
+    const psi = Math.atan2(sx, cx);
+    return { r, psi };
+}
+
+// Z_1 … Z_M in one pass: powers of e^{iθ_j} instead of M cos/sin pairs per phase
+export function daidoOrders(th: Float64Array, M: number): OrderParameter[] {
+    const re = new Float64Array(M), im = new Float64Array(M);
+    for (let i = 0; i < th.length; i++) {
+        const c = Math.cos(th[i]), s = Math.sin(th[i]);
+        let x = c, y = s;
+        for (let m = 0; m < M; m++) {
+            re[m] += x;
+            im[m] += y;
+            const nx = x * c - y * s;
+            y = x * s + y * c;
+            x = nx;
+        }
+    }
+    return Array.from(re, (x, m) => {
+        const cx = x / th.length, sx = im[m] / th.length;
+        return { r: Math.hypot(cx, sx), psi: Math.atan2(sx, cx) };
+    });
+}
+
+// First-order phase model, or the second-order "swing" model of power grids:
+//   m θ_i'' + d θ_i' = P_i + coupling_i   (P_i stored in ω_i)
+export type ModelName = "kuramoto" | "inertial";
+
+export const MODELS: Array<{ value: ModelName; label: string }> = [
+    { value: "kuramoto", label: "Kuramoto (1st order)" },
+    { value: "inertial", label: "Inertial / swing (2nd order)" },
+];
+
+// A pinned oscillator ignores coupling and noise and turns at a set frequency
+// (0 => held at a fixed phase). It still acts on the others, e.g. as a pacemaker.
+export interface Pin {
+    index: number;
+    frequency: number;
+}
+
+export interface KuramotoOptions {
+    model?: ModelName;
+    mass?: number;
+    damping?: number;
+    K?: number;
+    noise?: number;
+    adj?: Adjacency;
+    method?: IntegratorName;
+    tol?: number;
+    rng?: Rng; // noise stream
+    coupling?: CouplingFunction;
+    populations?: Populations | null;
+    pins?: Pin[];
+    forcing?: Forcing | null;
+}
+
+export class KuramotoSystem {
+    theta: Float64Array;
+    omega: Float64Array; // natural frequency (1st order) or power P (2nd order)
+    velocity: Float64Array; // θ' of the inertial model, unused otherwise
+    model: ModelName;
+    mass: number; // inertia m
+    damping: number; // damping d
+    adj: Adjacency; // null => all-to-all fast path
+    K: number;
+    coupling: CouplingFunction; // H(θ_j − θ_i), sin by default
+    populations: Populations | null; // null => one population sharing K
+    pins: Pin[];
+    forcing: Forcing | null; // external drive F sin(Ωt − θ_i), null => none
+    omegaShift = 0; // Δω added to every ω_i (driven by parameter protocols)
+    noise: number; // white noise amplitude σ
+    method: IntegratorName;
+    tol: number; // error tolerance for the adaptive RK45 scheme
+    rng: Rng; // noise stream
+    t = 0;
+
+    private ws = new Workspace();
+    private hAdaptive = 0; // last accepted RK45 sub-step (0 => start from h)
+    private readonly rhs: Rhs = (t, y, out) => this.derivative(y, out, t);
+    private readonly inertialRhs: Rhs = (t, y, out) => this.inertialDerivative(y, out, t);
+    private packed = new Float64Array(0); // [θ | θ'] while stepping the inertial model
+    private readonly normal = () => this.rng.normal();
+
+    constructor(N: number, opts: KuramotoOptions = {}) {
+        this.theta = new Float64Array(N);
+        this.omega = new Float64Array(N);
+        this.velocity = new Float64Array(N);
+        this.model = opts.model ?? "kuramoto";
+        this.mass = opts.mass ?? 1;
+        this.damping = opts.damping ?? 1;
+        this.adj = opts.adj ?? null;
+        this.K = opts.K ?? 1;
+        this.coupling = opts.coupling ?? SINE_COUPLING;
+        this.populations = opts.populations ?? null;
+        this.pins = opts.pins ?? [];
+        this.forcing = opts.forcing ?? null;
+        this.noise = opts.noise ?? 0;
+        this.method = opts.method ?? "euler";
+        this.tol = opts.tol ?? 1e-6;
+        this.rng = opts.rng ?? new Rng(0);
+    }
+
+    get N() {
+        return this.theta.length;
+    }
+
+    // Reallocate for a new N; phases/frequencies are zeroed and the clock reset
+    resize(N: number) {
+        this.theta = new Float64Array(N);
+        this.omega = new Float64Array(N);
+        this.velocity = new Float64Array(N);
+        this.adj = null;
+        this.t = 0;
+        this.hAdaptive = 0;
+    }
+
+    // Deep copy of the dynamic state (the graph is shared: it's never mutated while integrating)
+    clone() {
+        const c = new KuramotoSystem(0, {
+            model: this.model, mass: this.mass, damping: this.damping, K: this.K, coupling: this.coupling,
+            populations: this.populations, pins: this.pins, forcing: this.forcing, noise: this.noise, adj: this.adj, method: this.method, tol: this.tol, rng: this.rng.clone(),
+        });
+        c.theta = this.theta.slice();
+        c.omega = this.omega.slice();
+        c.velocity = this.velocity.slice();
+        c.t = this.t;
+        c.omegaShift = this.omegaShift;
+        return c;
+    }
+
+    order(): OrderParameter {
+        return computeOrder(this.theta);
+    }
+
+    // Deterministic right-hand side at time t: out_i = ω_i + coupling_i(th) [+ drive]
+    derivative(th: Float64Array, out: Float64Array, t = this.t) {
+        const w = this.omega;
+        const adj = this.adj;
+        const K = this.K;
+        const H = this.coupling;
+        const n = th.length;
+        const pops = this.populations;
+
+        // ignore a population split made for a different N (e.g. mid-resize)
+        if (pops && pops.of.length === n) {
+            this.populationDerivative(th, out, pops);
+        } else if (adj === null && isPureSine(H)) {
+            // All-to-all using order-parameter trick: Σ_j sin(θ_j - θ_i) = N r sin(ψ - θ_i)
+            const { r, psi } = computeOrder(th);
+            for (let i = 0; i < n; i++) {
+                out[i] = w[i] + K * r * Math.sin(psi - th[i]);
+            }
+        } else if (adj === null) {
+            // Same trick per harmonic: (1/N) Σ_j e^{im(θ_j − θ_i)} = R_m e^{i(Φ_m − mθ_i)}
+            out.set(w);
+            for (const { m, a, b } of H) {
+                const { r, psi } = computeOrder(th, m);
+                const ka = K * r * a, kb = K * r * b;
+                for (let i = 0; i < n; i++) {
+                    const x = psi - m * th[i];
+                    out[i] += ka * Math.sin(x) + (kb !== 0 ? kb * Math.cos(x) : 0);
+                }
+            }
+        } else if (!isPureSine(H)) {
+            const { rowPtr, colIdx, weight, strength } = adj;
+            for (let i = 0; i < n; i++) {
+                let s = 0;
+                for (let k = rowPtr[i]; k < rowPtr[i + 1]; k++) {
+                    s += weight[k] * evalCoupling(H, th[colIdx[k]] - th[i]);
+                }
+                out[i] = w[i] + (strength[i] > 0 ? (K / strength[i]) * s : 0);
+            }
+        } else {
+            // graph: (K / s_i) Σ_j w_ij sin(θ_j - θ_i), s_i = Σ_j |w_ij| (= deg(i) for unit weights)
+            const { rowPtr, colIdx, weight, strength } = adj;
+            for (let i = 0; i < n; i++) {
+                let s = 0;
+                for (let k = rowPtr[i]; k < rowPtr[i + 1]; k++) {
+                    s += weight[k] * Math.sin(th[colIdx[k]] - th[i]);
+                }
+                out[i] = w[i] + (strength[i] > 0 ? (K / strength[i]) * s : 0);
+            }
+        }
+        const f = this.forcing;
+        const mask = f && f.amplitude !== 0 ? drivenMask(f, n) : undefined;
+        if (f && mask !== undefined) {
+            const drive = f.frequency * t;
+            for (let i = 0; i < n; i++) if (!mask || mask[i]) out[i] += f.amplitude * Math.sin(drive - th[i]);
+        }
+        if (this.omegaShift !== 0) for (let i = 0; i < n; i++) out[i] += this.omegaShift;
+        for (const { index, frequency } of this.pins) if (index < n) out[index] = frequency;
+    }
+
+    // Block-coupled version of derivative(): K_ab scales what population a feels from b
+    private populationDerivative(th: Float64Array, out: Float64Array, pops: Populations) {
+        const w = this.omega;
+        const adj = this.adj;
+        const H = this.coupling;
+        const { count: P, of, K: Kab } = pops;
+        const K = this.K;
+        const n = th.length;
+
+        if (adj === null) {
+            // C_a,m = Σ_b K_ab Z_b,m with Z_b,m the order parameter of population b
+            const size = populationSizes(pops);
+            const zx = new Float64Array(P), zy = new Float64Array(P);
+            const Cx = new Float64Array(P), Cy = new Float64Array(P);
+            out.set(w);
+            for (const { m, a: am, b: bm } of H) {
+                zx.fill(0);
+                zy.fill(0);
+                for (let j = 0; j < n; j++) {
+                    zx[of[j]] += Math.cos(m * th[j]);
+                    zy[of[j]] += Math.sin(m * th[j]);
+                }
+                for (let b = 0; b < P; b++) {
+                    if (size[b] > 0) {
+                        zx[b] /= size[b];
+                        zy[b] /= size[b];
+                    }
+                }
+                for (let a = 0; a < P; a++) {
+                    let x = 0, y = 0;
+                    for (let b = 0; b < P; b++) {
+                        x += Kab[a * P + b] * zx[b];
+                        y += Kab[a * P + b] * zy[b];
+                    }
+                    Cx[a] = x;
+                    Cy[a] = y;
+                }
+                // Im / Re of C e^{−imθ_i} give the sin / cos parts of H
+                for (let i = 0; i < n; i++) {
+                    const a = of[i], c = Math.cos(m * th[i]), s = Math.sin(m * th[i]);
+                    const im = Cy[a] * c - Cx[a] * s;
+                    const re = Cx[a] * c + Cy[a] * s;
+                    out[i] += K * (am * im + bm * re);
+                }
+            }
+        } else {
+            const { rowPtr, colIdx, weight, strength } = adj;
+            for (let i = 0; i < n; i++) {
+                const row = of[i] * P;
+                let s = 0;
+                for (let k = rowPtr[i]; k < rowPtr[i + 1]; k++) {
+                    const j = colIdx[k];
+                    s += weight[k] * Kab[row + of[j]] * evalCoupling(H, th[j] - th[i]);
+                }
+                out[i] = w[i] + (strength[i] > 0 ? (K / strength[i]) * s : 0);
+            }
+        }
+    }
+
+    // y = [θ | v]:  θ' = v,  v' = (P + coupling(θ) − d v) / m
+    private inertialDerivative(y: Float64Array, out: Float64Array, t: number) {
+        const n = this.N;
+        const v = y.subarray(n);
+        const dv = out.subarray(n);
+        this.derivative(y.subarray(0, n), dv, t);
+        const m = this.mass, d = this.damping;
+        for (let i = 0; i < n; i++) {
+            out[i] = v[i];
+            dv[i] = (dv[i] - d * v[i]) / m;
+        }
+        for (const { index, frequency } of this.pins) {
+            if (index >= n) continue;
+            out[index] = frequency;
+            dv[index] = 0;
+        }
+    }
+
+    // Instantaneous dθ/dt for every oscillator (noise-free)
+    drift(): Float64Array {
+        if (this.model === "inertial") return this.velocity.slice();
+        const out = new Float64Array(this.N);
+        this.derivative(this.theta, out);
+        return out;
+    }
+
+    // ---- Integrator ----
+    // Deterministic runs use the selected scheme. With noise σ > 0 the
+    // additive-noise SDE is integrated with Euler–Maruyama ("euler") or
+    // stochastic Heun (every higher-order choice): plain RK on an SDE gains
+    // nothing over Heun's strong order 1 for additive noise.
+    //
+    // The inertial model steps the packed state [θ | θ'] with the same schemes;
+    // its noise σ enters the force balance, i.e. σ/m on θ'' only.
+    step(h: number) {
+        const th = this.theta;
+        const n = this.N;
+        const inertial = this.model === "inertial";
+        const pins = this.pins.filter(p => p.index < n);
+        const pinned = pins.map(p => th[p.index]);
+        let y = th, f = this.rhs, sigma = this.noise, from = 0;
+        if (inertial) {
+            if (this.velocity.length !== n) this.velocity = new Float64Array(n);
+            if (this.packed.length !== 2 * n) this.packed = new Float64Array(2 * n);
+            for (const p of pins) this.velocity[p.index] = p.frequency;
+            y = this.packed;
+            y.set(th, 0);
+            y.set(this.velocity, n);
+            f = this.inertialRhs;
+            sigma /= this.mass;
+            from = n;
+        }
+        const ws = this.ws;
+
+        if (this.noise > 0) {
+            if (this.method === "euler") eulerMaruyamaStep(f, this.t, y, h, sigma, this.normal, ws, from);
+            else stochasticHeunStep(f, this.t, y, h, sigma, this.normal, ws, from);
+        } else {
+            switch (this.method) {
+                case "euler":
+                    eulerStep(f, this.t, y, h, ws);
+                    break;
+                case "heun":
+                    heunStep(f, this.t, y, h, ws);
+                    break;
+                case "rk4":
+                    rk4Step(f, this.t, y, h, ws);
+                    break;
+                case "rk45":
+                    this.hAdaptive = rk45Advance(f, this.t, y, h, this.tol, ws, this.hAdaptive || h);
+                    break;
+            }
+        }
+
+        if (inertial) {
+            th.set(y.subarray(0, n));
+            this.velocity.set(y.subarray(n));
+        }
+
+        // pins move exactly at their frequency, whatever the noise did
+        pins.forEach((p, k) => {
+            th[p.index] = pinned[k] + p.frequency * h;
+            if (inertial) this.velocity[p.index] = p.frequency;
+        });
+
+        // keep phases in [-pi, pi] for numeric stability
+        for (let i = 0; i < th.length; i++) {
+            if (th[i] > Math.PI || th[i] < -Math.PI) th[i] = wrapAngle(th[i]);
+        }
+        this.t += h;
+    }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { FrequencyWindow, PhaseUnwrapper, frequencyClusters, lockingToCSV, summarizeLocking } from "./locking";
+import { KuramotoSystem } from "./kuramoto";
+import { Rng } from "./random";
+import { SimRunner } from "./runner";
+
+function runWithWindow(sys: KuramotoSystem, seconds: number, window: number) {
+    const runner = new SimRunner(sys);
+    runner.dt = 0.01;
+    runner.unwrap = new PhaseUnwrapper();
+    runner.unwrap.reset(sys.theta);
+    const fw = new FrequencyWindow(window);
+    for (let k = 0; k < seconds / 0.1; k++) {
+        runner.advance(0.1, 1000);
+        fw.push(sys.t, runner.unwrap.phase);
+    }
+    return fw;
+}
+
+describe("effective frequencies", () => {
+    it("recovers ω of uncoupled oscillators through many wraps", () => {
+        const sys = new KuramotoSystem(3, { K: 0 });
+        sys.omega.set([-4, 0.5, 9]); // 9 rad/s wraps ~1.4 times per second
+        const fw = runWithWindow(sys, 20, 5);
+        expect(fw.span).toBeCloseTo(5, 1);
+        const eff = fw.effective()!;
+        [-4, 0.5, 9].forEach((w, i) => expect(eff[i]).toBeCloseTo(w, 6));
+    });
+
+    it("gives strongly coupled oscillators a common frequency", () => {
+        const sys = new KuramotoSystem(5, { K: 4 });
+        sys.omega.set([-0.4, -0.1, 0.3, 0.6, 1.1]);
+        const eff = runWithWindow(sys, 40, 10).effective()!;
+        for (const v of eff) expect(v).toBeCloseTo(0.3, 3); // the mean ω
+        const clusters = frequencyClusters(eff, 1e-2);
+        expect(clusters.length).toBe(1);
+        expect(summarizeLocking(clusters, 5)).toEqual({ lockedFraction: 1, largestFraction: 1, clusterCount: 1 });
+    });
+
+    it("starts over when the clock goes backwards", () => {
+        const fw = new FrequencyWindow(1);
+        fw.push(0, new Float64Array([0]));
+        fw.push(1, new Float64Array([2]));
+        expect(fw.effective()?.[0]).toBe(2);
+        fw.push(0, new Float64Array([5]));
+        expect(fw.effective()).toBeNull();
+    });
+
+    it("continues the unwrapped phase across a rebase", () => {
+        const u = new PhaseUnwrapper();
+        u.reset(new Float64Array([3]));
+        u.update(new Float64Array([-3])); // crossed +π
+        expect(u.phase[0]).toBeCloseTo(3 + (2 * Math.PI - 6), 12);
+        u.rebase(new Float64Array([0]));
+        u.update(new Float64Array([0.1]));
+        expect(u.phase[0]).toBeCloseTo(2 * Math.PI - 2.9, 12);
+    });
+});
+
+describe("frequency clusters", () => {
+    it("groups frequencies within the tolerance and leaves drifters alone", () => {
+        const eff = [1.0, 0.001, 1.004, 5, 0, 1.0045, -0.002];
+        const clusters = frequencyClusters(eff, 0.005);
+        expect(clusters.map(c => c.members.length)).toEqual([3, 3, 1]);
+        expect(clusters[0].frequency).toBeCloseTo(-0.0003, 4); // ties broken by frequency
+        expect(clusters[1].members).toEqual([0, 2, 5]);
+        expect(summarizeLocking(clusters, eff.length)).toEqual({ lockedFraction: 6 / 7, largestFraction: 3 / 7, clusterCount: 2 });
+        expect(lockingToCSV(eff, eff, clusters).split("\n")[4]).toBe("3,5,5,-1");
+    });
+
+    it("does not chain a dense run of frequencies into one cluster", () => {
+        // 0, 0.004, 0.008, …: every neighbour is within tol, the run spans 0.4
+        const eff = Array.from({ length: 100 }, (_, i) => 0.004 * i);
+        const clusters = frequencyClusters(eff, 0.01);
+        expect(summarizeLocking(clusters, eff.length).lockedFraction).toBe(0);
+        expect(Math.max(...clusters.map(c => c.members.length))).toBe(1);
+    });
+
+    it("finds almost nothing locked in a large uncoupled population", () => {
+        const sys = new KuramotoSystem(2000, { K: 0 });
+        const rng = new Rng(7);
+        for (let i = 0; i < 2000; i++) sys.omega[i] = rng.normal(0, 0.6);
+        const eff = runWithWindow(sys, 2, 1).effective()!;
+        const summary = summarizeLocking(frequencyClusters(eff, 0.01), 2000);
+        expect(summary.lockedFraction).toBeLessThan(0.05); // a few chance pairs in the sparse tails
+        expect(summary.largestFraction).toBeLessThan(0.005);
+    });
+});
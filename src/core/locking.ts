@@ -0,0 +1,153 @@
+// ----------------------- Phase-locking analysis -----------------------
+// Effective frequencies Ω_i = ⟨dθ_i/dt⟩ over a time window and the
+// frequency-locked clusters they form (the plateaus of Ω_i against ω_i).
+import { wrapAngle } from "./utils";
+
+/**
+ * Accumulates unwrapped phases from the wrapped θ the integrator keeps.
+ * Must see every step: a phase may not advance by π or more between calls.
+ */
+export class PhaseUnwrapper {
+    phase = new Float64Array(0); // Σ of wrapped per-step increments
+    private last = new Float64Array(0);
+
+    reset(theta: Float64Array) {
+        this.phase = Float64Array.from(theta);
+        this.last = Float64Array.from(theta);
+    }
+
+    // θ was overwritten (drag, manual phases, load): continue from it without a jump
+    rebase(theta: Float64Array) {
+        if (theta.length !== this.phase.length) this.reset(theta);
+        else this.last.set(theta);
+    }
+
+    update(theta: Float64Array) {
+        if (theta.length !== this.phase.length) {
+            this.reset(theta);
+            return;
+        }
+        const { phase, last } = this;
+        for (let i = 0; i < theta.length; i++) {
+            phase[i] += wrapAngle(theta[i] - last[i]);
+            last[i] = theta[i];
+        }
+    }
+}
+
+/**
+ * Snapshots of unwrapped phases thinned to ~`resolution` per window, enough
+ * to difference the newest against the one a window earlier.
+ */
+export class FrequencyWindow {
+    window: number; // averaging time T (s)
+    resolution: number;
+    private snaps: Array<{ t: number; phase: Float64Array }> = [];
+
+    constructor(window = 10, resolution = 64) {
+        this.window = window;
+        this.resolution = resolution;
+    }
+
+    clear() {
+        this.snaps = [];
+    }
+
+    // A new N or a clock that went backwards (reset) starts over
+    push(t: number, phase: Float64Array) {
+        const snaps = this.snaps;
+        const newest = snaps[snaps.length - 1];
+        if (newest && (phase.length !== newest.phase.length || t < newest.t)) snaps.length = 0;
+        else if (newest && snaps.length > 1 && t - snaps[snaps.length - 2].t < this.window / this.resolution) snaps.pop();
+        snaps.push({ t, phase: Float64Array.from(phase) });
+        // keep one snapshot at or before the window start
+        while (snaps.length > 2 && snaps[1].t <= t - this.window) snaps.shift();
+    }
+
+    // time actually covered so far (≤ window until enough history has built up)
+    get span() {
+        const s = this.snaps;
+        return s.length > 1 ? s[s.length - 1].t - s[0].t : 0;
+    }
+
+    // Ω_i over the covered span, or null until there are two snapshots
+    effective(): Float64Array | null {
+        const s = this.snaps;
+        if (s.length < 2) return null;
+        const a = s[0], b = s[s.length - 1];
+        const dt = b.t - a.t;
+        if (dt <= 0) return null;
+        const out = new Float64Array(b.phase.length);
+        for (let i = 0; i < out.length; i++) out[i] = (b.phase[i] - a.phase[i]) / dt;
+        return out;
+    }
+}
+
+export interface FrequencyCluster {
+    frequency: number; // mean Ω of the members
+    members: number[]; // oscillator indices, ascending Ω
+}
+
+/**
+ * Group oscillators whose effective frequencies agree within `tol`, largest
+ * cluster first. Walking the sorted Ω, a cluster closes as soon as the next Ω
+ * is more than `tol` above its first member, so no cluster spans more than
+ * `tol`. A plateau also has to stand apart: if the Ω just below or above it is
+ * within `tol`, it is part of a continuum of drifting frequencies (dense at
+ * large N) and its members are returned as clusters of one, like any drifter.
+ */
+export function frequencyClusters(omegaEff: ArrayLike<number>, tol: number): FrequencyCluster[] {
+    const n = omegaEff.length;
+    const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => omegaEff[a] - omegaEff[b]);
+    const groups: number[][] = [];
+    for (let k = 0; k < n; k++) {
+        const i = order[k];
+        const cur = groups[groups.length - 1];
+        if (cur && omegaEff[i] - omegaEff[cur[0]] <= tol) cur.push(i);
+        else groups.push([i]);
+    }
+    const clusters: FrequencyCluster[] = [];
+    groups.forEach((g, k) => {
+        const below = k > 0 ? omegaEff[g[0]] - omegaEff[groups[k - 1][groups[k - 1].length - 1]] : Infinity;
+        const above = k + 1 < groups.length ? omegaEff[groups[k + 1][0]] - omegaEff[g[g.length - 1]] : Infinity;
+        if (g.length > 1 && (below <= tol || above <= tol)) {
+            for (const i of g) clusters.push({ frequency: omegaEff[i], members: [i] });
+            return;
+        }
+        let sum = 0;
+        for (const i of g) sum += omegaEff[i];
+        clusters.push({ frequency: sum / g.length, members: g });
+    });
+    return clusters.sort((a, b) => b.members.length - a.members.length || a.frequency - b.frequency);
+}
+
+export interface LockingSummary {
+    lockedFraction: number; // share of oscillators in a cluster of two or more
+    largestFraction: number; // share in the biggest cluster
+    clusterCount: number; // clusters of two or more
+}
+
+export function summarizeLocking(clusters: FrequencyCluster[], n: number): LockingSummary {
+    let locked = 0, count = 0;
+    for (const c of clusters) {
+        if (c.members.length < 2) continue;
+        locked += c.members.length;
+        count++;
+    }
+    return {
+        lockedFraction: n > 0 ? locked / n : 0,
+        largestFraction: n > 0 && clusters.length > 0 ? clusters[0].members.length / n : 0,
+        clusterCount: count,
+    };
+}
+
+// i, ω_i, Ω_i and cluster label (0 = largest, -1 = drifting) as CSV
+export function lockingToCSV(omega: ArrayLike<number>, omegaEff: ArrayLike<number>, clusters: FrequencyCluster[]) {
+    const label = new Int32Array(omegaEff.length).fill(-1);
+    clusters.forEach((c, k) => {
+        if (c.members.length > 1) for (const i of c.members) label[i] = k;
+    });
+    const lines = ["i,omega,omega_eff,cluster"];
+    for (let i = 0; i < omegaEff.length; i++) lines.push(`${i},${omega[i]},${omegaEff[i]},${label[i]}`);
+    return lines.join("\n");
+}
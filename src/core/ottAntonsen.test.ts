@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { KuramotoSystem } from "./kuramoto";
+import { OttAntonsen } from "./ottAntonsen";
+import { Rng } from "./random";
+
+function run(oa: OttAntonsen, T: number, h = 0.01) {
+    for (let k = Math.round(T / h); k > 0; k--) oa.step(h);
+    return oa.order().r;
+}
+
+describe("OttAntonsen", () => {
+    it("relaxes to sqrt(1 − 2γ/K) above Kc and to 0 below", () => {
+        const oa = new OttAntonsen({ kind: "lorentzian", gamma: 0.5, center: 0 });
+        oa.K = 2;
+        oa.reset(0.05, 0);
+        expect(run(oa, 60)).toBeCloseTo(Math.sqrt(0.5), 6);
+
+        oa.K = 0.5;
+        expect(run(oa, 60)).toBeLessThan(1e-3);
+    });
+
+    it("rotates ψ at the centre frequency", () => {
+        const oa = new OttAntonsen({ kind: "lorentzian", gamma: 0.1, center: 1 });
+        oa.K = 2;
+        oa.reset(0.9, 0);
+        const r = run(oa, 1, 0.001);
+        expect(r).toBeCloseTo(Math.sqrt(0.9), 1);
+        expect(oa.order().psi).toBeCloseTo(1, 2);
+    });
+
+    it("keeps the bimodal populations mirror-symmetric", () => {
+        const oa = new OttAntonsen({ kind: "bimodal", gamma: 0.2, offset: 1 });
+        oa.K = 3;
+        oa.reset(0.3, 0);
+        const r = run(oa, 40);
+        const [x1, y1, x2, y2] = oa.z;
+        expect(x1).toBeCloseTo(x2, 9);
+        expect(y1).toBeCloseTo(-y2, 9);
+        expect(r).toBeGreaterThan(0.3);
+        expect(r).toBeLessThanOrEqual(1);
+    });
+
+    it("tracks a large finite-N Lorentzian system", () => {
+        const N = 4000, gamma = 0.5, K = 2.5;
+        const rng = new Rng(7);
+        const sys = new KuramotoSystem(N, { K, method: "rk4" });
+        for (let i = 0; i < N; i++) {
+            sys.omega[i] = rng.cauchy(0, gamma);
+            sys.theta[i] = rng.uniform() * 2 * Math.PI;
+        }
+        const oa = new OttAntonsen({ kind: "lorentzian", gamma, center: 0 });
+        oa.K = K;
+        const { r, psi } = sys.order();
+        oa.reset(r, psi);
+        for (let k = 0; k < 1500; k++) {
+            sys.step(0.02);
+            oa.step(0.02);
+        }
+        expect(Math.abs(sys.order().r - oa.order().r)).toBeLessThan(0.08);
+    });
+});
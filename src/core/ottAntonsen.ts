@@ -0,0 +1,71 @@
+// ----------------------- Ott–Antonsen reduction -----------------------
+// For Lorentzian ω the N → ∞ all-to-all model collapses onto the OA manifold:
+// each Lorentzian population j (centre ω_j, width γ) is described by one
+// complex order parameter z_j obeying
+//   ż_j = (iω_j − γ) z_j + (K/2)(Z − Z̄ z_j²),   Z = Σ_j w_j z_j.
+import { rk4Step, Workspace, type Rhs } from "./integrators";
+
+export type ReducedModel =
+    | { kind: "lorentzian"; gamma: number; center: number }
+    // g(ω) = ½[L(ω; −ω0, γ) + L(ω; +ω0, γ)], two populations of equal weight
+    | { kind: "bimodal"; gamma: number; offset: number };
+
+export class OttAntonsen {
+    readonly model: ReducedModel;
+    K = 0;
+    t = 0;
+    z: Float64Array; // interleaved (re, im) per population
+
+    private centers: number[];
+    private ws = new Workspace();
+    private rhs: Rhs;
+
+    constructor(model: ReducedModel) {
+        this.model = model;
+        this.centers = model.kind === "lorentzian" ? [model.center] : [-model.offset, model.offset];
+        this.z = new Float64Array(2 * this.centers.length);
+        this.rhs = (_t, y, out) => this.derivative(y, out);
+    }
+
+    // Put every population at the same z = r e^{iψ} (e.g. the finite-N system's)
+    reset(r: number, psi: number, t = 0) {
+        for (let j = 0; j < this.centers.length; j++) {
+            this.z[2 * j] = r * Math.cos(psi);
+            this.z[2 * j + 1] = r * Math.sin(psi);
+        }
+        this.t = t;
+    }
+
+    private meanField(y: Float64Array) {
+        const P = this.centers.length;
+        let X = 0, Y = 0;
+        for (let j = 0; j < P; j++) {
+            X += y[2 * j];
+            Y += y[2 * j + 1];
+        }
+        return { X: X / P, Y: Y / P };
+    }
+
+    derivative(y: Float64Array, out: Float64Array) {
+        const { gamma } = this.model;
+        const { X, Y } = this.meanField(y);
+        const k = 0.5 * this.K;
+        for (let j = 0; j < this.centers.length; j++) {
+            const x = y[2 * j], v = y[2 * j + 1], w = this.centers[j];
+            // z² = a + ib, Z̄ z² = (Xa + Yb) + i(Xb − Ya)
+            const a = x * x - v * v, b = 2 * x * v;
+            out[2 * j] = -gamma * x - w * v + k * (X - (X * a + Y * b));
+            out[2 * j + 1] = w * x - gamma * v + k * (Y - (X * b - Y * a));
+        }
+    }
+
+    step(h: number) {
+        rk4Step(this.rhs, this.t, this.z, h, this.ws);
+        this.t += h;
+    }
+
+    order() {
+        const { X, Y } = this.meanField(this.z);
+        return { r: Math.hypot(X, Y), psi: Math.atan2(Y, X) };
+    }
+}
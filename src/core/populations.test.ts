@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { evalCoupling, sakaguchi } from "./coupling";
+import { EdgeList, toCsr } from "./graph";
+import { KuramotoSystem } from "./kuramoto";
+import { blockPopulations, populationOrders } from "./populations";
+import { Rng } from "./random";
+import { TAU } from "./utils";
+
+describe("blockPopulations", () => {
+    it("splits indices into contiguous, nearly equal blocks", () => {
+        const p = blockPopulations(7, [1, 0, 0, 0, 1, 0, 0, 0, 1]);
+        expect(p.count).toBe(3);
+        expect(Array.from(p.of)).toEqual([0, 0, 0, 1, 1, 2, 2]);
+        expect(() => blockPopulations(4, [1, 2, 3], 2)).toThrow();
+    });
+
+    it("measures r per population", () => {
+        const p = blockPopulations(4, [1, 1, 1, 1]);
+        const r = populationOrders(Float64Array.from([0.3, 0.3, 0, Math.PI]), p);
+        expect(r[0]).toBeCloseTo(1, 12);
+        expect(r[1]).toBeCloseTo(0, 12);
+    });
+});
+
+describe("block-coupled dynamics", () => {
+    const N = 30;
+    function state() {
+        const sys = new KuramotoSystem(N, { K: 1.3, coupling: sakaguchi(0.4, 0.2) });
+        for (let i = 0; i < N; i++) {
+            sys.theta[i] = Math.sin(2.7 * i) * 3;
+            sys.omega[i] = Math.cos(0.9 * i);
+        }
+        return sys;
+    }
+
+    it("matches the direct Σ_b K_ab (1/N_b) Σ_j H sum", () => {
+        const sys = state();
+        const Kab = [1, 0.3, -0.5, 2];
+        sys.populations = blockPopulations(N, Kab);
+        const of = sys.populations.of;
+        const size = [0, 0];
+        for (const a of of) size[a]++;
+        const d = sys.drift();
+        for (let i = 0; i < N; i++) {
+            let s = 0;
+            for (let j = 0; j < N; j++) s += (Kab[of[i] * 2 + of[j]] / size[of[j]]) * evalCoupling(sys.coupling, sys.theta[j] - sys.theta[i]);
+            expect(d[i]).toBeCloseTo(sys.omega[i] + sys.K * s, 10);
+        }
+    });
+
+    it("reduces to the plain model with one population and K_11 = 1", () => {
+        const sys = state();
+        const plain = sys.drift();
+        sys.populations = blockPopulations(N, [1]);
+        Array.from(sys.drift()).forEach((v, i) => expect(v).toBeCloseTo(plain[i], 12));
+
+        const edges = new EdgeList();
+        edges.addUndirected(0, 1, 1);
+        edges.addUndirected(1, 20, 0.5);
+        sys.adj = toCsr(N, edges);
+        sys.populations = null;
+        const plainGraph = sys.drift();
+        sys.populations = blockPopulations(N, [1, 1, 1, 1]);
+        Array.from(sys.drift()).forEach((v, i) => expect(v).toBeCloseTo(plainGraph[i], 12));
+    });
+
+    it("holds a chimera: one population locked, the other drifting", () => {
+        // Abrams et al. (2008) two-group setup, identical ω, in the breathing-chimera
+        // range: μ = 0.65, ν = 0.35 (A = 0.3), α = π/2 − 0.05
+        const n = 128;
+        const sys = new KuramotoSystem(2 * n, { K: 1, method: "rk4", coupling: sakaguchi(Math.PI / 2 - 0.05) });
+        sys.populations = blockPopulations(2 * n, [0.65, 0.35, 0.35, 0.65]);
+        const rng = new Rng(3);
+        for (let i = 0; i < n; i++) sys.theta[n + i] = rng.uniform() * TAU - Math.PI;
+        for (let k = 0; k < 4000; k++) sys.step(0.05);
+        const [r1, r2] = populationOrders(sys.theta, sys.populations);
+        expect(r1).toBeGreaterThan(0.999);
+        expect(r2).toBeLessThan(0.95);
+        expect(r2).toBeGreaterThan(0.2);
+    });
+});
@@ -0,0 +1,62 @@
+// ----------------------- Multi-population coupling -----------------------
+// Oscillators are split into P populations; oscillator i in population a
+// feels population b through the multiplier K_ab (on top of the global K):
+//   dθ_i/dt = ω_i + K Σ_b K_ab (1/N_b) Σ_{j∈b} H(θ_j − θ_i)
+import type { Rng } from "./random";
+
+export const MAX_POPULATIONS = 6;
+
+export interface Populations {
+    count: number; // P
+    of: Uint8Array; // population index of every oscillator
+    K: Float64Array; // P×P row-major, row a = receiving population
+}
+
+// Contiguous, (almost) equal index blocks: population of i = ⌊i·P/N⌋
+export function blockPopulations(N: number, K: ArrayLike<number>, count = Math.round(Math.sqrt(K.length))): Populations {
+    if (count < 1 || count > MAX_POPULATIONS || K.length !== count * count) {
+        throw new Error(`need a ${count}×${count} coupling matrix for ${count} populations`);
+    }
+    const of = new Uint8Array(N);
+    for (let i = 0; i < N; i++) of[i] = Math.floor((i * count) / N);
+    return { count, of, K: Float64Array.from(K) };
+}
+
+export function populationSizes(pops: Populations) {
+    const size = new Int32Array(pops.count);
+    for (let i = 0; i < pops.of.length; i++) size[pops.of[i]]++;
+    return size;
+}
+
+// Per-population order parameter r_a = |(1/N_a) Σ_{j∈a} e^{iθ_j}| (0 for empty populations)
+export function populationOrders(th: Float64Array, pops: Populations) {
+    const P = pops.count;
+    const cx = new Float64Array(P), sx = new Float64Array(P);
+    const size = populationSizes(pops);
+    for (let i = 0; i < th.length; i++) {
+        const a = pops.of[i];
+        cx[a] += Math.cos(th[i]);
+        sx[a] += Math.sin(th[i]);
+    }
+    const r = new Float64Array(P);
+    for (let a = 0; a < P; a++) r[a] = size[a] > 0 ? Math.hypot(cx[a], sx[a]) / size[a] : 0;
+    return r;
+}
+
+// ---- Per-population frequency distributions ----
+
+export type FrequencyKind = "gaussian" | "cauchy" | "uniform";
+
+export interface FrequencySpec {
+    kind: FrequencyKind;
+    center: number;
+    width: number; // σ, γ or half-range a
+}
+
+export function sampleFrequency(spec: FrequencySpec, rng: Rng) {
+    const { kind, center, width } = spec;
+    if (width <= 0) return center;
+    if (kind === "gaussian") return rng.normal(center, width);
+    if (kind === "cauchy") return rng.cauchy(center, width);
+    return center + (rng.uniform() * 2 - 1) * width;
+}
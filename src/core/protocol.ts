@@ -0,0 +1,83 @@
+// ----------------------- Worker message protocol -----------------------
+// The simulation runs in `sim.worker.ts`; the UI keeps a mirror KuramotoSystem
+// for drawing/readouts and talks to the worker only through these messages.
+import type { CouplingFunction } from "./coupling";
+import type { Forcing } from "./forcing";
+import type { Adjacency } from "./graph";
+import type { IntegratorName } from "./integrators";
+import type { ModelName, Pin } from "./kuramoto";
+import type { ReducedModel } from "./ottAntonsen";
+import type { Populations } from "./populations";
+import type { Schedule, ScheduledValues } from "./schedule";
+import type { SweepOptions, SweepPoint } from "./sweep";
+import type { RecordOptions, TrajectoryBatch } from "./trajectory";
+
+export interface SimParams {
+    model: ModelName;
+    mass: number;
+    damping: number;
+    K: number;
+    coupling: CouplingFunction;
+    populations: Populations | null;
+    pins: Pin[];
+    forcing: Forcing | null;
+    noise: number;
+    method: IntegratorName;
+    tol: number;
+    dt: number; // fixed step handed to the integrator
+    speed: number; // sim seconds per wall-clock second
+}
+
+export interface SimState {
+    theta: Float64Array;
+    omega: Float64Array;
+    velocity: Float64Array; // inertial model only
+    adj: Adjacency;
+    t: number;
+}
+
+export type ToWorker =
+    // Replace (part of) the dynamic state. `gen` tags every later frame so the
+    // UI can drop frames computed from state it has since overwritten.
+    | {
+        type: "load";
+        gen: number;
+        state: Partial<SimState>;
+        noiseSeed?: number; // restart the noise stream from this seed
+        shared?: SharedArrayBuffer; // N float64s the worker mirrors θ into
+    }
+    | { type: "params"; params: Partial<SimParams> }
+    // Move one oscillator (a canvas drag) without reloading the rest of the state
+    | { type: "phase"; index: number; theta: number }
+    | { type: "run" }
+    | { type: "pause" }
+    // Integrate the Ott–Antonsen reduction alongside, restarted from the current r
+    // on every load; null switches it off
+    | { type: "reduced"; model: ReducedModel | null }
+    // Track unwrapped phases step by step for effective frequencies
+    | { type: "unwrap"; enabled: boolean }
+    // Record θ_i(t) (and dθ_i/dt) every `interval` from now on; null stops
+    | { type: "record"; options: RecordOptions | null }
+    // Start a parameter protocol from the current sim time; null stops it (Δω back to 0)
+    | { type: "schedule"; schedule: Schedule | null }
+    // K-sweep on a copy of the current state; the live simulation is untouched
+    | { type: "sweep"; id: number; options: SweepOptions }
+    | { type: "sweep-cancel" };
+
+export type FromWorker =
+    | {
+        type: "frame";
+        gen: number;
+        t: number;
+        theta: Float64Array | null; // null => read θ from the shared buffer
+        velocity: Float64Array | null; // θ' of the inertial model, null otherwise
+        samples: Float64Array; // flat SAMPLE_FIELDS rows (t, r, ψ, r_2 …, dψ/dt) recorded since the last frame
+        reduced: Float64Array | null; // reduced-model r at the same times, if enabled
+        plv: Float64Array | null; // drive PLV for the last plv.length samples, if driven
+        // r_a per population for the last r.length / count samples
+        populations: { count: number; r: Float64Array } | null;
+        unwrapped: Float64Array | null; // accumulated phases, if tracking is on
+        scheduled: { start: number; values: ScheduledValues } | null; // running protocol, if any
+        recorded: TrajectoryBatch | null; // trajectory rows sampled since the last frame, while recording
+    }
+    | { type: "sweep-progress"; id: number; points: SweepPoint[]; progress: number; done: boolean };
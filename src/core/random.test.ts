@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { Rng, createStreams, rngStream } from "./random";
+import { buildAdjacency } from "./graph";
+import { KuramotoSystem } from "./kuramoto";
+
+const draw = (rng: Rng, n: number) => Array.from({ length: n }, () => rng.uniform());
+
+describe("Rng", () => {
+    it("replays the same sequence for the same seed", () => {
+        expect(draw(new Rng(42), 20)).toEqual(draw(new Rng(42), 20));
+    });
+
+    it("gives different sequences for different seeds and streams", () => {
+        expect(draw(new Rng(42), 5)).not.toEqual(draw(new Rng(43), 5));
+        expect(draw(rngStream(42, "omega"), 5)).not.toEqual(draw(rngStream(42, "phase"), 5));
+    });
+
+    it("draws uniforms in [0, 1) with the right moments", () => {
+        const xs = draw(new Rng(7), 20_000);
+        expect(Math.min(...xs)).toBeGreaterThanOrEqual(0);
+        expect(Math.max(...xs)).toBeLessThan(1);
+        const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+        expect(mean).toBeCloseTo(0.5, 2);
+    });
+
+    it("draws standard normals", () => {
+        const rng = new Rng(9);
+        let s = 0, s2 = 0;
+        const n = 20_000;
+        for (let i = 0; i < n; i++) {
+            const z = rng.normal();
+            s += z; s2 += z * z;
+        }
+        expect(s / n).toBeCloseTo(0, 1);
+        expect(s2 / n).toBeCloseTo(1, 1);
+    });
+});
+
+describe("sub-streams", () => {
+    it("keep the graph independent of how much ω was sampled", () => {
+        const streams = createStreams(123);
+        for (let i = 0; i < 1000; i++) streams.omega.normal();
+        const a = buildAdjacency("er", 40, { p: 0.2 }, rngStream(123, "graph"));
+        const b = buildAdjacency("er", 40, { p: 0.2 }, rngStream(123, "graph"));
+        expect(a).toEqual(b);
+    });
+
+    it("make noisy runs reproducible", () => {
+        const runOnce = () => {
+            const sys = new KuramotoSystem(10, { K: 1, noise: 0.5, rng: createStreams(5).noise });
+            for (let i = 0; i < 200; i++) sys.step(0.01);
+            return Array.from(sys.theta);
+        };
+        expect(runOnce()).toEqual(runOnce());
+    });
+});
@@ -0,0 +1,107 @@
+// ----------------------- Seeded random numbers -----------------------
+// xoshiro128** seeded through splitmix32. Every stochastic ingredient draws
+// from its own named sub-stream, so e.g. resampling ω leaves the graph alone.
+
+const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k));
+
+function splitmix32(a: number) {
+    return () => {
+        a = (a + 0x9e3779b9) | 0;
+        let t = a ^ (a >>> 16);
+        t = Math.imul(t, 0x21f0aaad);
+        t ^= t >>> 15;
+        t = Math.imul(t, 0x735a2d97);
+        t ^= t >>> 15;
+        return t >>> 0;
+    };
+}
+
+// FNV-1a, used to turn a stream name into a 32-bit stream id
+function hashString(s: string) {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        h ^= s.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+export class Rng {
+    private s0: number;
+    private s1: number;
+    private s2: number;
+    private s3: number;
+
+    constructor(seed: number, stream = 0) {
+        const sm = splitmix32((seed >>> 0) ^ splitmix32(stream)());
+        this.s0 = sm(); this.s1 = sm(); this.s2 = sm(); this.s3 = sm();
+        if ((this.s0 | this.s1 | this.s2 | this.s3) === 0) this.s0 = 1; // all-zero state is a fixed point
+    }
+
+    // independent copy that continues the same sequence
+    clone() {
+        const c = Object.create(Rng.prototype) as Rng;
+        c.s0 = this.s0; c.s1 = this.s1; c.s2 = this.s2; c.s3 = this.s3;
+        return c;
+    }
+
+    // raw 32-bit output
+    nextUint32() {
+        const result = Math.imul(rotl(Math.imul(this.s1, 5), 7), 9) >>> 0;
+        const t = this.s1 << 9;
+        this.s2 ^= this.s0;
+        this.s3 ^= this.s1;
+        this.s1 ^= this.s2;
+        this.s0 ^= this.s3;
+        this.s2 ^= t;
+        this.s3 = rotl(this.s3, 11);
+        return result;
+    }
+
+    // uniform on [0, 1)
+    uniform() {
+        return this.nextUint32() / 4294967296;
+    }
+
+    normal(mean = 0, std = 1) {
+        // Box-Muller
+        let u = 0, v = 0;
+        while (u === 0) u = this.uniform();
+        while (v === 0) v = this.uniform();
+        const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+        return mean + std * z;
+    }
+
+    cauchy(x0 = 0, gamma = 1) {
+        // Inverse transform of standard Cauchy
+        const u = this.uniform() - 0.5;
+        return x0 + gamma * Math.tan(Math.PI * u);
+    }
+}
+
+export type StreamName = "omega" | "phase" | "graph" | "weights" | "noise" | "forcing";
+
+export function rngStream(seed: number, name: StreamName) {
+    return new Rng(seed, hashString(name));
+}
+
+export interface SeedStreams {
+    omega: Rng; // natural-frequency sampling
+    phase: Rng; // initial phases
+    noise: Rng; // integrator noise term
+}
+
+// Graph construction is not in here: callers derive fresh "graph"/"weights"
+// streams per build so the network depends only on (seed, topology, parameters).
+export function createStreams(seed: number): SeedStreams {
+    return {
+        omega: rngStream(seed, "omega"),
+        phase: rngStream(seed, "phase"),
+        noise: rngStream(seed, "noise"),
+    };
+}
+
+// A fresh seed for when the user hasn't picked one
+export function randomSeed() {
+    return Math.floor(Math.random() * 1_000_000_000);
+}
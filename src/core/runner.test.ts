@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { KuramotoSystem } from "./kuramoto";
+import { FrequencyWindow, PhaseUnwrapper } from "./locking";
+import { OttAntonsen } from "./ottAntonsen";
+import { blockPopulations } from "./populations";
+import { SAMPLE_FIELDS, SAMPLE_STRIDE, SimRunner } from "./runner";
+
+describe("SimRunner", () => {
+    it("turns elapsed wall time into fixed steps scaled by speed", () => {
+        const runner = new SimRunner(new KuramotoSystem(4));
+        runner.dt = 0.01;
+        runner.speed = 2;
+        const steps = runner.advance(0.1, 1000);
+        expect(steps).toBe(20);
+        expect(runner.sys.t).toBeCloseTo(0.2, 9);
+    });
+
+    it("records one sample row per step and drains them", () => {
+        const runner = new SimRunner(new KuramotoSystem(4));
+        runner.dt = 0.05;
+        runner.advance(0.2, 1000);
+        const s = runner.drainSamples();
+        expect(s.length).toBe(4 * SAMPLE_STRIDE);
+        expect(s[3 * SAMPLE_STRIDE]).toBeCloseTo(0.2, 9);
+        expect(runner.drainSamples().length).toBe(0);
+    });
+
+    it("unwraps ψ, its rate and the Daido r_m", () => {
+        // antipodal clusters of 3 and 1 turning at ω = 3: r = 0.5, r_2 = 1
+        const sys = new KuramotoSystem(4, { K: 0 });
+        sys.theta.set([0, 0, 0, Math.PI]);
+        sys.omega.fill(3);
+        const runner = new SimRunner(sys);
+        runner.dt = 0.01;
+        runner.resetClock();
+        for (let k = 0; k < 40; k++) runner.advance(0.1, 1000); // t = 4: ψ has wrapped once
+        const s = runner.drainSamples();
+        const at = (k: number, name: string) => s[k * SAMPLE_STRIDE + SAMPLE_FIELDS.indexOf(name)];
+        const last = s.length / SAMPLE_STRIDE - 1;
+        expect(at(last, "t")).toBeCloseTo(4, 9);
+        expect(at(last, "psi")).toBeCloseTo(12, 6);
+        expect(at(0, "dpsi")).toBeCloseTo(3, 6);
+        expect(at(last, "dpsi")).toBeCloseTo(3, 6);
+        expect(at(last, "r")).toBeCloseTo(0.5, 12);
+        expect(at(last, "r2")).toBeCloseTo(1, 12);
+        expect(at(last, "r3")).toBeCloseTo(0.5, 12);
+    });
+
+    it("steps the reduced model in lockstep and drains its r alongside", () => {
+        const runner = new SimRunner(new KuramotoSystem(4, { K: 2 }));
+        expect(runner.drainReduced()).toBeNull();
+        runner.dt = 0.05;
+        runner.reduced = new OttAntonsen({ kind: "lorentzian", gamma: 0.5, center: 0 });
+        runner.reduced.reset(0.5, 0);
+        runner.advance(0.2, 1000);
+        expect(runner.drainReduced()?.length).toBe(runner.drainSamples().length / SAMPLE_STRIDE);
+        expect(runner.reduced.K).toBe(2);
+        expect(runner.reduced.t).toBeCloseTo(runner.sys.t, 9);
+    });
+
+    it("records r_a for every population per step", () => {
+        const runner = new SimRunner(new KuramotoSystem(6));
+        expect(runner.drainPopulations()).toBeNull();
+        runner.sys.populations = blockPopulations(6, [1, 0, 0, 1]);
+        runner.dt = 0.05;
+        runner.advance(0.2, 1000);
+        const pops = runner.drainPopulations();
+        expect(pops?.count).toBe(2);
+        expect(pops?.r.length).toBe(2 * runner.drainSamples().length / SAMPLE_STRIDE);
+        expect(pops?.r[0]).toBeCloseTo(1, 12); // all phases start at 0
+    });
+
+    it("sets one phase without changing its effective frequency", () => {
+        const sys = new KuramotoSystem(2, { K: 0 });
+        sys.omega.set([1, 2]);
+        const runner = new SimRunner(sys);
+        runner.dt = 0.01;
+        runner.unwrap = new PhaseUnwrapper();
+        runner.unwrap.reset(sys.theta);
+        const fw = new FrequencyWindow(10);
+        for (let k = 0; k < 50; k++) {
+            if (k % 5 === 0) runner.setPhase(0, sys.theta[0] + (k % 2 ? 3 : -3)); // jumps of ±3 rad
+            runner.advance(0.1, 1000);
+            fw.push(sys.t, runner.unwrap.phase);
+        }
+        const eff = fw.effective()!;
+        expect(eff[0]).toBeCloseTo(1, 6);
+        expect(eff[1]).toBeCloseTo(2, 6);
+        runner.setPhase(5, 0); // out of range: ignored
+        expect(sys.theta.length).toBe(2);
+    });
+
+    it("ignores large wall-clock jumps", () => {
+        const runner = new SimRunner(new KuramotoSystem(4));
+        expect(runner.advance(5, 1000)).toBe(0);
+    });
+
+    it("drops the backlog when the time budget runs out", () => {
+        const runner = new SimRunner(new KuramotoSystem(4));
+        runner.dt = 0.001;
+        let clock = 0;
+        const steps = runner.advance(0.4, 10, () => (clock += 1));
+        expect(steps).toBeLessThan(400);
+        // nothing owed afterwards
+        expect(runner.advance(0, 1000)).toBe(0);
+    });
+});
@@ -0,0 +1,177 @@
+// ----------------------- Real-time driver -----------------------
+// Turns wall-clock time into fixed integrator steps, within a time budget.
+import type { DrivePLV } from "./forcing";
+import { daidoOrders, type KuramotoSystem } from "./kuramoto";
+import type { PhaseUnwrapper } from "./locking";
+import type { OttAntonsen } from "./ottAntonsen";
+import { populationOrders } from "./populations";
+import { scheduleValues, type Schedule, type ScheduledValues } from "./schedule";
+import type { TrajectorySampler } from "./trajectory";
+import { wrapAngle } from "./utils";
+
+// Highest Daido order recorded: r_m = |Z_m| for m = 2 … DAIDO_MAX
+export const DAIDO_MAX = 4;
+
+// One sample per step: t, r, ψ (unwrapped), r_2 … r_M, dψ/dt
+export const SAMPLE_FIELDS = [
+    "t", "r", "psi",
+    ...Array.from({ length: DAIDO_MAX - 1 }, (_, k) => `r${k + 2}`),
+    "dpsi",
+];
+export const SAMPLE_STRIDE = SAMPLE_FIELDS.length;
+
+export class SimRunner {
+    sys: KuramotoSystem;
+    dt = 0.02;
+    speed = 1;
+    reduced: OttAntonsen | null = null; // stepped in lockstep with `sys` when set
+    unwrap: PhaseUnwrapper | null = null; // fed θ after every step when set
+    recorder: TrajectorySampler | null = null; // samples θ (and dθ/dt) after every step when set
+    plv: DrivePLV | null = null; // locking to the drive, recorded while sys.forcing is set
+    schedule: Schedule | null = null; // parameter protocol, times relative to scheduleStart
+    scheduleStart = 0;
+
+    private acc = 0; // sim time owed but not yet integrated
+    private samples: number[] = [];
+    private reducedSamples: number[] = [];
+    private plvSamples: number[] = [];
+    private popSamples: number[] = []; // r_a per step, `popCount` values each
+    private popCount = 0;
+    private psi = NaN; // unwrapped ψ at psiT
+    private psiWrapped = NaN;
+    private psiT = NaN;
+
+    constructor(sys: KuramotoSystem) {
+        this.sys = sys;
+    }
+
+    resetClock() {
+        this.acc = 0;
+        this.samples = [];
+        this.reducedSamples = [];
+        this.plvSamples = [];
+        this.popSamples = [];
+        this.plv?.reset();
+        this.unwrapPsi(this.sys.order().psi);
+    }
+
+    /**
+     * Integrate `elapsed` wall seconds of simulation (scaled by `speed`).
+     * Stops after `budgetMs` and drops the backlog instead of trying to
+     * catch up later, so a too-large system slows down rather than stalls.
+     */
+    advance(elapsed: number, budgetMs: number, now: () => number = () => performance.now()) {
+        if (!isFinite(elapsed) || elapsed > 0.5) elapsed = 0; // guard large jumps
+        this.acc += elapsed * this.speed;
+
+        const start = now();
+        const h = this.dt;
+        let steps = 0;
+        // small slack so round-off in acc doesn't drop a step
+        while (this.acc >= h * (1 - 1e-9)) {
+            this.applySchedule();
+            this.sys.step(h);
+            this.acc -= h;
+            steps++;
+            this.recordOrder();
+            this.recordPopulations();
+            this.unwrap?.update(this.sys.theta);
+            this.recorder?.sample(this.sys);
+            if (this.plv && this.sys.forcing) this.plvSamples.push(this.plv.update(this.sys, this.sys.forcing, h));
+            if (this.reduced) {
+                this.reduced.K = this.sys.K;
+                this.reduced.step(h);
+                this.reducedSamples.push(this.reduced.order().r);
+            }
+            if ((steps & 15) === 0 && now() - start > budgetMs) {
+                this.acc = 0;
+                break;
+            }
+        }
+        return steps;
+    }
+
+    // Move one oscillator (a drag); the unwrapper carries on from the new θ without a jump
+    setPhase(index: number, theta: number) {
+        if (index >= this.sys.N) return;
+        this.sys.theta[index] = theta;
+        this.unwrap?.rebase(this.sys.theta);
+    }
+
+    // Set the scheduled parameters for the step about to be taken
+    applySchedule() {
+        if (!this.schedule) return;
+        const v = this.scheduledValues();
+        if (v.K !== undefined) this.sys.K = v.K;
+        if (v.noise !== undefined) this.sys.noise = v.noise;
+        if (v.omega !== undefined) this.sys.omegaShift = v.omega;
+    }
+
+    scheduledValues(): ScheduledValues {
+        return this.schedule ? scheduleValues(this.schedule, this.sys.t - this.scheduleStart) : {};
+    }
+
+    // flat rows of SAMPLE_FIELDS recorded since the last call
+    drainSamples() {
+        const out = Float64Array.from(this.samples);
+        this.samples = [];
+        return out;
+    }
+
+    private recordOrder() {
+        const Z = daidoOrders(this.sys.theta, DAIDO_MAX);
+        const rate = this.unwrapPsi(Z[0].psi);
+        this.samples.push(this.sys.t, Z[0].r, this.psi);
+        for (let m = 1; m < DAIDO_MAX; m++) this.samples.push(Z[m].r);
+        this.samples.push(rate);
+    }
+
+    // Follow ψ across steps and return dψ/dt over the last one (NaN if unknown).
+    // Time going back (Reset) starts ψ over from its wrapped value.
+    private unwrapPsi(psi: number) {
+        const t = this.sys.t;
+        const d = wrapAngle(psi - this.psiWrapped);
+        const continues = t >= this.psiT && Number.isFinite(this.psi + d);
+        const rate = continues && t > this.psiT ? d / (t - this.psiT) : NaN;
+        this.psi = continues ? this.psi + d : psi;
+        this.psiWrapped = psi;
+        this.psiT = t;
+        return rate;
+    }
+
+    private recordPopulations() {
+        const pops = this.sys.populations;
+        if (!pops || pops.of.length !== this.sys.N) return;
+        if (pops.count !== this.popCount) {
+            this.popCount = pops.count;
+            this.popSamples = [];
+        }
+        for (const r of populationOrders(this.sys.theta, pops)) this.popSamples.push(r);
+    }
+
+    // r_a of every population for the most recent samples (a split made
+    // mid-frame only covers the tail), or null with a single population
+    drainPopulations() {
+        const pops = this.sys.populations;
+        if (!pops) return null;
+        const out = { count: this.popCount, r: Float64Array.from(this.popSamples) };
+        this.popSamples = [];
+        return out;
+    }
+
+    // drive PLV at the same sample times, or null without a drive
+    drainPLV() {
+        if (!this.plv || !this.sys.forcing) return null;
+        const out = Float64Array.from(this.plvSamples);
+        this.plvSamples = [];
+        return out;
+    }
+
+    // reduced-model r at the same sample times, or null when it isn't running
+    drainReduced() {
+        if (!this.reduced) return null;
+        const out = Float64Array.from(this.reducedSamples);
+        this.reducedSamples = [];
+        return out;
+    }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { KuramotoSystem } from "./kuramoto";
+import { SimRunner } from "./runner";
+import { parseSchedule, scheduleEnd, scheduleValues } from "./schedule";
+
+describe("parameter protocols", () => {
+    const text = [
+        "# quasi-static ramp, then a quench and a noise pulse",
+        "0 K ramp 0 3 200",
+        "200 K = 1",
+        "210 noise = 0.5",
+        "220 σ = 0",
+    ].join("\n");
+
+    it("parses steps and ramps in time order", () => {
+        const s = parseSchedule(text);
+        expect(s.map(e => [e.t, e.param])).toEqual([[0, "K"], [200, "K"], [210, "noise"], [220, "noise"]]);
+        expect(scheduleEnd(s)).toBe(220);
+    });
+
+    it("interpolates ramps and holds values between events", () => {
+        const s = parseSchedule(text);
+        expect(scheduleValues(s, 50)).toEqual({ K: 0.75 });
+        expect(scheduleValues(s, 205)).toEqual({ K: 1 });
+        expect(scheduleValues(s, 215)).toEqual({ K: 1, noise: 0.5 });
+        expect(scheduleValues(s, 1000)).toEqual({ K: 1, noise: 0 });
+    });
+
+    it("names the first bad line", () => {
+        expect(() => parseSchedule("0 K = 1\n5 J = 2")).toThrow(/^line 2: expected K, noise or omega/);
+        expect(() => parseSchedule("0 K ramp 0 1")).toThrow(/^line 1: expected/);
+        expect(() => parseSchedule("0 noise = -1")).toThrow(/^line 1: noise must be ≥ 0/);
+        expect(() => parseSchedule("# nothing")).toThrow("no events given");
+    });
+
+    it("is applied by the runner before every step", () => {
+        const runner = new SimRunner(new KuramotoSystem(4, { K: 9 }));
+        runner.dt = 0.1;
+        runner.schedule = parseSchedule("0 K ramp 0 2 2\n1 omega = 0.5");
+        runner.advance(0.4, 1000); // steps start at t = 0, 0.1, 0.2, 0.3
+        expect(runner.sys.K).toBeCloseTo(0.3, 12);
+        expect(runner.sys.omegaShift).toBe(0);
+        runner.advance(0.4, 1000);
+        runner.advance(0.4, 1000);
+        expect(runner.sys.omegaShift).toBe(0.5);
+        expect(runner.sys.drift()[0]).toBeCloseTo(0.5, 12); // all phases equal: only Δω remains
+    });
+});
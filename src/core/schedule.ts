@@ -0,0 +1,80 @@
+// ----------------------- Parameter protocols -----------------------
+// Piecewise schedules for K, noise σ and a common frequency shift Δω, in
+// simulation seconds from the protocol's start. The runner evaluates them
+// before every step, so ramps are as smooth as dt allows.
+
+export type ScheduledParam = "K" | "noise" | "omega";
+
+export const SCHEDULED_PARAMS: ScheduledParam[] = ["K", "noise", "omega"];
+
+// From `t` the value goes linearly from `from` to `to` over `duration`
+// (0 => a step) and then holds until the next event for the same parameter
+export interface ScheduleEvent {
+    t: number;
+    param: ScheduledParam;
+    from: number;
+    to: number;
+    duration: number;
+}
+
+export type Schedule = ScheduleEvent[]; // sorted by t
+
+export type ScheduledValues = Partial<Record<ScheduledParam, number>>;
+
+const PARAM_NAMES: Record<string, ScheduledParam> = {
+    k: "K", noise: "noise", sigma: "noise", "σ": "noise", omega: "omega", "ω": "omega", "δω": "omega",
+};
+
+/**
+ * Parse one event per line ("#" starts a comment):
+ *   <t> <param> = <v>                       step to v at t
+ *   <t> <param> ramp <from> <to> <duration> linear ramp starting at t
+ * with <param> one of K, noise (σ) or omega (Δω, added to every ωᵢ).
+ * Throws an Error naming the first bad line.
+ */
+export function parseSchedule(text: string): Schedule {
+    const events: ScheduleEvent[] = [];
+    text.split(/\r?\n/).forEach((raw, k) => {
+        const line = raw.replace(/#.*/, "").trim();
+        if (line === "") return;
+        const cols = line.split(/\s+/);
+        function fail(why: string): never {
+            throw new Error(`line ${k + 1}: ${why}, got "${line}"`);
+        }
+        const t = Number(cols[0]);
+        if (!Number.isFinite(t) || t < 0) fail("expected a start time ≥ 0");
+        const param = PARAM_NAMES[(cols[1] ?? "").toLowerCase()];
+        if (!param) fail("expected K, noise or omega");
+        const nums = cols.slice(3).map(Number);
+        let e: ScheduleEvent;
+        if (cols[2] === "=" && nums.length === 1 && Number.isFinite(nums[0])) {
+            e = { t, param, from: nums[0], to: nums[0], duration: 0 };
+        } else if (cols[2] === "ramp" && nums.length === 3 && nums.every(Number.isFinite) && nums[2] > 0) {
+            e = { t, param, from: nums[0], to: nums[1], duration: nums[2] };
+        } else {
+            fail(`expected "<t> ${cols[1]} = <v>" or "<t> ${cols[1]} ramp <from> <to> <duration>"`);
+        }
+        if (param === "noise" && Math.min(e.from, e.to) < 0) fail("noise must be ≥ 0");
+        events.push(e);
+    });
+    if (events.length === 0) throw new Error("no events given");
+    // stable: equal times keep their line order, so the later line wins
+    return events.sort((a, b) => a.t - b.t);
+}
+
+// Value of every scheduled parameter at protocol time t (absent before its first event)
+export function scheduleValues(schedule: Schedule, t: number): ScheduledValues {
+    const out: ScheduledValues = {};
+    for (const e of schedule) {
+        if (e.t > t) break;
+        out[e.param] = e.duration > 0 && t < e.t + e.duration
+            ? e.from + ((e.to - e.from) * (t - e.t)) / e.duration
+            : e.to;
+    }
+    return out;
+}
+
+// Protocol time at which the last ramp has finished
+export function scheduleEnd(schedule: Schedule) {
+    return schedule.reduce((m, e) => Math.max(m, e.t + e.duration), 0);
+}
@@ -0,0 +1,180 @@
+// ----------------------- Simulation worker -----------------------
+// Owns the integrating KuramotoSystem and streams θ + r(t) back to the UI.
+import { DrivePLV } from "./forcing";
+import { KuramotoSystem } from "./kuramoto";
+import { PhaseUnwrapper } from "./locking";
+import { OttAntonsen } from "./ottAntonsen";
+import { rngStream } from "./random";
+import { SimRunner } from "./runner";
+import { KSweep, type SweepPoint } from "./sweep";
+import { TrajectorySampler } from "./trajectory";
+import type { FromWorker, ToWorker } from "./protocol";
+
+// The app is compiled against the DOM lib, so describe the worker scope by hand
+interface WorkerScope {
+    onmessage: ((e: MessageEvent<ToWorker>) => void) | null;
+    postMessage(msg: FromWorker, transfer?: Transferable[]): void;
+}
+const ctx = self as unknown as WorkerScope;
+
+const FRAME_MS = 16; // ~60 frames/s back to the UI
+const BUDGET_MS = 12; // integration time per frame
+
+const runner = new SimRunner(new KuramotoSystem(0));
+let running = false;
+let gen = 0;
+let shared: Float64Array | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let lastTick = 0;
+let sweep: KSweep | null = null;
+let sweepId = 0;
+let sweepTimer: ReturnType<typeof setTimeout> | undefined;
+
+function postFrame() {
+    const sys = runner.sys;
+    const samples = runner.drainSamples();
+    const reduced = runner.drainReduced();
+    const plv = runner.drainPLV();
+    const populations = runner.drainPopulations();
+    let theta: Float64Array | null = null;
+    if (shared && shared.length === sys.N) shared.set(sys.theta);
+    else theta = sys.theta.slice();
+    const velocity = sys.model === "inertial" ? sys.velocity.slice() : null;
+    const unwrapped = runner.unwrap ? runner.unwrap.phase.slice() : null;
+    const scheduled = runner.schedule ? { start: runner.scheduleStart, values: runner.scheduledValues() } : null;
+    const recorded = runner.recorder?.drain() ?? null;
+    const msg: FromWorker = { type: "frame", gen, t: sys.t, theta, velocity, samples, reduced, plv, populations, unwrapped, scheduled, recorded };
+    const transfer: Transferable[] = [samples.buffer];
+    if (theta) transfer.push(theta.buffer);
+    if (velocity) transfer.push(velocity.buffer);
+    if (reduced) transfer.push(reduced.buffer);
+    if (plv) transfer.push(plv.buffer);
+    if (populations) transfer.push(populations.r.buffer);
+    if (unwrapped) transfer.push(unwrapped.buffer);
+    if (recorded) transfer.push(recorded.t.buffer, recorded.theta.buffer, ...(recorded.drift ? [recorded.drift.buffer] : []));
+    ctx.postMessage(msg, transfer);
+}
+
+function tick() {
+    timer = undefined;
+    if (!running) return;
+    const start = performance.now();
+    runner.advance((start - lastTick) / 1000, BUDGET_MS);
+    lastTick = start;
+    postFrame();
+    timer = setTimeout(tick, Math.max(0, FRAME_MS - (performance.now() - start)));
+}
+
+// Sweeps run in budgeted slices so pause/params/cancel messages still get through
+function sweepTick() {
+    sweepTimer = undefined;
+    if (!sweep) return;
+    const start = performance.now();
+    const points: SweepPoint[] = [];
+    while (!sweep.done && performance.now() - start < BUDGET_MS) points.push(...sweep.advance(64));
+    ctx.postMessage({ type: "sweep-progress", id: sweepId, points, progress: sweep.progress, done: sweep.done });
+    if (sweep.done) {
+        sweep = null;
+        return;
+    }
+    sweepTimer = setTimeout(sweepTick, 0);
+}
+
+function restartReduced() {
+    const { r, psi } = runner.sys.order();
+    runner.reduced?.reset(r, psi, runner.sys.t);
+}
+
+function cancelSweep() {
+    sweep = null;
+    if (sweepTimer !== undefined) clearTimeout(sweepTimer);
+    sweepTimer = undefined;
+}
+
+ctx.onmessage = (e) => {
+    const msg = e.data;
+    const sys = runner.sys;
+    switch (msg.type) {
+        case "load": {
+            gen = msg.gen;
+            const { theta, omega, velocity, adj, t } = msg.state;
+            if (theta) sys.theta = theta;
+            if (omega) sys.omega = omega;
+            if (velocity) sys.velocity = velocity;
+            if (adj !== undefined) sys.adj = adj;
+            if (t !== undefined) sys.t = t;
+            // a reset clock restarts the protocol with it
+            if (sys.t < runner.scheduleStart) runner.scheduleStart = sys.t;
+            if (msg.noiseSeed !== undefined) sys.rng = rngStream(msg.noiseSeed, "noise");
+            if (msg.shared) shared = new Float64Array(msg.shared);
+            runner.resetClock();
+            restartReduced();
+            runner.unwrap?.rebase(sys.theta);
+            runner.recorder?.rebase(sys.t);
+            runner.recorder?.sample(sys);
+            break;
+        }
+        case "params": {
+            const { model, mass, damping, K, coupling, populations, pins, forcing, noise, method, tol, dt, speed } = msg.params;
+            if (model !== undefined) sys.model = model;
+            if (mass !== undefined) sys.mass = mass;
+            if (damping !== undefined) sys.damping = damping;
+            if (K !== undefined) sys.K = K;
+            if (coupling !== undefined) sys.coupling = coupling;
+            if (populations !== undefined) sys.populations = populations;
+            if (pins !== undefined) sys.pins = pins;
+            if (forcing !== undefined) {
+                sys.forcing = forcing;
+                runner.plv = forcing ? runner.plv ?? new DrivePLV() : null;
+            }
+            if (noise !== undefined) sys.noise = noise;
+            if (method !== undefined) sys.method = method;
+            if (tol !== undefined) sys.tol = tol;
+            if (dt !== undefined) runner.dt = dt;
+            if (speed !== undefined) runner.speed = speed;
+            break;
+        }
+        case "run":
+            if (!running) {
+                running = true;
+                lastTick = performance.now();
+                tick();
+            }
+            break;
+        case "pause":
+            running = false;
+            if (timer !== undefined) clearTimeout(timer);
+            timer = undefined;
+            break;
+        case "reduced":
+            runner.reduced = msg.model ? new OttAntonsen(msg.model) : null;
+            restartReduced();
+            break;
+        case "phase":
+            runner.setPhase(msg.index, msg.theta);
+            break;
+        case "unwrap":
+            runner.unwrap = msg.enabled ? new PhaseUnwrapper() : null;
+            runner.unwrap?.reset(sys.theta);
+            break;
+        case "record":
+            runner.recorder = msg.options ? new TrajectorySampler(msg.options) : null;
+            runner.recorder?.sample(sys);
+            break;
+        case "schedule":
+            runner.schedule = msg.schedule;
+            runner.scheduleStart = sys.t;
+            if (!msg.schedule) sys.omegaShift = 0;
+            runner.applySchedule();
+            break;
+        case "sweep":
+            cancelSweep();
+            sweepId = msg.id;
+            sweep = new KSweep(sys.clone(), msg.options);
+            sweepTick();
+            break;
+        case "sweep-cancel":
+            cancelSweep();
+            break;
+    }
+};
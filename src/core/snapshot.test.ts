@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { KuramotoSystem } from "./kuramoto";
+import { buildAdjacency } from "./graph";
+import { OrderHistory } from "./history";
+import { Rng } from "./random";
+import { parseSnapshot, restoreSnapshot, snapshotToJSON, takeSnapshot } from "./snapshot";
+
+function history(...rows: Array<[number, Record<string, number>]>) {
+    const h = new OrderHistory();
+    for (const [t, values] of rows) h.push(t, values);
+    return h;
+}
+
+function system() {
+    const rng = new Rng(3);
+    const sys = new KuramotoSystem(12, { K: 2, method: "rk4", adj: buildAdjacency("ring", 12, { k: 4 }) });
+    for (let i = 0; i < 12; i++) {
+        sys.theta[i] = rng.uniform() * 6 - 3;
+        sys.omega[i] = rng.normal(0, 0.5);
+    }
+    return sys;
+}
+
+describe("snapshots", () => {
+    it("restores a state that continues exactly like the original run", () => {
+        const sys = system();
+        for (let s = 0; s < 50; s++) sys.step(0.05);
+        const h = history([0, { r: 0.1 }], [2.5, { r: 0.4, r_1: 0.3, r_2: 0.5 }]);
+        const snap = takeSnapshot(sys, h, "transient");
+        h.push(2.6, { r: 1 }); // the snapshot keeps its own copy
+        for (let s = 0; s < 50; s++) sys.step(0.05);
+        const ahead = sys.theta.slice();
+
+        const branch = system();
+        branch.resize(3); // a different N and graph are replaced wholesale
+        const restored = restoreSnapshot(branch, snap);
+        expect(branch.t).toBe(snap.t);
+        expect(restored.size).toBe(2);
+        expect(restored.recent()[1].values).toEqual({ r: 0.4, r_1: 0.3, r_2: 0.5 });
+        restored.push(3, { r: 0 });
+        expect(restoreSnapshot(branch, snap).size).toBe(2);
+        for (let s = 0; s < 50; s++) branch.step(0.05);
+        expect(Array.from(branch.theta)).toEqual(Array.from(ahead));
+    });
+
+    it("round-trips through a file, graph included", () => {
+        const sys = system();
+        sys.step(0.1);
+        const h = new OrderHistory(2, 2, 2);
+        for (let k = 0; k < 9; k++) h.push(k, { r: 0.1 * k, plv: 0.9 });
+        const snap = takeSnapshot(sys, h, "a");
+        expect(parseSnapshot(snapshotToJSON(snap))).toEqual(snap);
+        sys.adj = null;
+        expect(parseSnapshot(snapshotToJSON(takeSnapshot(sys, new OrderHistory(), "all-to-all"))).adj).toBeNull();
+    });
+
+    it("names the first bad field of a damaged file", () => {
+        const file = JSON.parse(snapshotToJSON(takeSnapshot(system(), history([0, { r: 0.5 }]), "x")));
+        const broken = (edit: (f: typeof file) => void) => {
+            const f = structuredClone(file);
+            edit(f);
+            return () => parseSnapshot(JSON.stringify(f));
+        };
+        expect(broken(f => f.omega.pop())).toThrow(/^omega: expected 12 values/);
+        expect(broken(f => (f.graph.colIdx[0] = 12))).toThrow(/^graph\.colIdx/);
+        expect(broken(f => (f.history.raw[0].values.r = "high"))).toThrow(/^history\.raw\[0\]\.values/);
+        expect(broken(f => (f.version = 3))).toThrow(/unsupported snapshot version/);
+        expect(() => parseSnapshot("{}")).toThrow(/not a snapshot file/);
+    });
+
+    it("reads version 1 files with a flat r history", () => {
+        const file = JSON.parse(snapshotToJSON(takeSnapshot(system(), new OrderHistory(), "old")));
+        file.version = 1;
+        file.history = [{ t: 0, r: 0.2 }, { t: 1, r: 0.3, rOA: 0.35, rPop: [0.1, 0.4] }];
+        const restored = OrderHistory.fromState(parseSnapshot(JSON.stringify(file)).history);
+        expect(restored.recent().map(p => p.values)).toEqual([{ r: 0.2 }, { r: 0.3, r_oa: 0.35, r_1: 0.1, r_2: 0.4 }]);
+    });
+});
@@ -0,0 +1,168 @@
+// ----------------------- Snapshots -----------------------
+// Named copies of the full dynamic state: θ, ω, θ', the graph, the clock and
+// the r(t) history. Parameters (K, σ, …) are not part of a snapshot, so one
+// transient can be restored and continued under different settings.
+import { computeStrength, type Adjacency } from "./graph";
+import { OrderHistory, type HistoryBin, type HistoryPoint, type HistoryState, type Stat } from "./history";
+import type { KuramotoSystem } from "./kuramoto";
+
+// 2: the multi-resolution history (1 stored a flat list of r samples)
+export const SNAPSHOT_VERSION = 2;
+const FORMAT = "kuramoto-snapshot";
+
+export interface Snapshot {
+    name: string;
+    created: string; // ISO timestamp
+    t: number;
+    theta: Float64Array;
+    omega: Float64Array;
+    velocity: Float64Array;
+    adj: Adjacency; // shared, not copied: a built graph is never mutated
+    history: HistoryState;
+}
+
+export function takeSnapshot(sys: KuramotoSystem, history: OrderHistory, name: string): Snapshot {
+    return {
+        name,
+        created: new Date().toISOString(),
+        t: sys.t,
+        theta: sys.theta.slice(),
+        omega: sys.omega.slice(),
+        velocity: sys.velocity.slice(),
+        adj: sys.adj,
+        history: history.state(),
+    };
+}
+
+// Put the snapshot's state into `sys` (copies, so the snapshot can be restored again)
+// and return a copy of its history
+export function restoreSnapshot(sys: KuramotoSystem, snap: Snapshot): OrderHistory {
+    sys.theta = snap.theta.slice();
+    sys.omega = snap.omega.slice();
+    sys.velocity = snap.velocity.slice();
+    sys.adj = snap.adj;
+    sys.t = snap.t;
+    return OrderHistory.fromState(snap.history);
+}
+
+// ---- Files: one snapshot per JSON document ----
+export function snapshotToJSON(snap: Snapshot) {
+    const g = snap.adj;
+    return JSON.stringify({
+        format: FORMAT,
+        version: SNAPSHOT_VERSION,
+        name: snap.name,
+        created: snap.created,
+        t: snap.t,
+        theta: Array.from(snap.theta),
+        omega: Array.from(snap.omega),
+        velocity: Array.from(snap.velocity),
+        graph: g && { n: g.n, rowPtr: Array.from(g.rowPtr), colIdx: Array.from(g.colIdx), weight: Array.from(g.weight) },
+        history: snap.history,
+    });
+}
+
+const isNum = (x: unknown): x is number => typeof x === "number" && Number.isFinite(x);
+
+function numbers(v: unknown, field: string, length: number) {
+    if (!Array.isArray(v) || !v.every(isNum)) throw new Error(`${field}: expected an array of numbers`);
+    if (length >= 0 && v.length !== length) throw new Error(`${field}: expected ${length} values, got ${v.length}`);
+    return v;
+}
+
+/**
+ * Read a file written by snapshotToJSON. Throws an Error naming the first bad
+ * field; the CSR arrays are checked so a damaged file can't index out of range.
+ */
+export function parseSnapshot(text: string): Snapshot {
+    let raw: Record<string, unknown>;
+    try {
+        raw = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`not valid JSON: ${(err as Error).message}`);
+    }
+    if (typeof raw !== "object" || raw === null || raw.format !== FORMAT) throw new Error("not a snapshot file");
+    if (raw.version !== SNAPSHOT_VERSION && raw.version !== 1) throw new Error(`unsupported snapshot version ${JSON.stringify(raw.version)}`);
+    if (!isNum(raw.t)) throw new Error("t: expected a number");
+    const theta = numbers(raw.theta, "theta", -1);
+    const N = theta.length;
+    if (N < 1) throw new Error("theta: no oscillators");
+    const omega = numbers(raw.omega, "omega", N);
+    const velocity = numbers(raw.velocity, "velocity", N);
+
+    let adj: Adjacency = null;
+    if (raw.graph != null) {
+        const g = raw.graph as Record<string, unknown>;
+        if (g.n !== N) throw new Error(`graph.n: expected ${N} (the number of phases)`);
+        const rowPtr = numbers(g.rowPtr, "graph.rowPtr", N + 1);
+        const colIdx = numbers(g.colIdx, "graph.colIdx", -1);
+        const weight = numbers(g.weight, "graph.weight", colIdx.length);
+        for (let i = 0; i < N; i++) {
+            if (!(rowPtr[i] <= rowPtr[i + 1])) throw new Error("graph.rowPtr: must be non-decreasing");
+        }
+        if (rowPtr[0] !== 0 || rowPtr[N] !== colIdx.length) throw new Error(`graph.rowPtr: must run from 0 to ${colIdx.length}`);
+        if (!colIdx.every(j => Number.isInteger(j) && j >= 0 && j < N)) throw new Error(`graph.colIdx: entries must be node indices below ${N}`);
+        const csr = { n: N, rowPtr: Int32Array.from(rowPtr), colIdx: Int32Array.from(colIdx), weight: Float64Array.from(weight) };
+        adj = { ...csr, strength: computeStrength(csr) };
+    }
+
+    const history = raw.version === 1 ? historyV1(raw.history) : historyState(raw.history);
+
+    return {
+        name: typeof raw.name === "string" ? raw.name : "imported",
+        created: typeof raw.created === "string" ? raw.created : new Date().toISOString(),
+        t: raw.t,
+        theta: Float64Array.from(theta),
+        omega: Float64Array.from(omega),
+        velocity: Float64Array.from(velocity),
+        adj,
+        history,
+    };
+}
+
+function values(v: unknown, field: string) {
+    if (typeof v !== "object" || v === null || !Object.values(v).every(isNum)) throw new Error(`${field}: expected numbers by series name`);
+    return v as Record<string, number>;
+}
+
+function historyState(v: unknown): HistoryState {
+    const h = (v ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(h.raw) || !Array.isArray(h.levels)) throw new Error("history: expected raw samples and levels");
+    const raw = h.raw.map((p, k): HistoryPoint => {
+        const o = (p ?? {}) as Record<string, unknown>;
+        if (!isNum(o.t)) throw new Error(`history.raw[${k}].t: expected a number`);
+        return { t: o.t, values: values(o.values, `history.raw[${k}].values`) };
+    });
+    const levels = h.levels.map((lv, l) => {
+        if (!Array.isArray(lv)) throw new Error(`history.levels[${l}]: expected an array`);
+        return lv.map((b, k): HistoryBin => {
+            const o = (b ?? {}) as Record<string, unknown>;
+            const at = `history.levels[${l}][${k}]`;
+            if (!isNum(o.t0) || !isNum(o.t1) || !isNum(o.count)) throw new Error(`${at}: expected t0, t1 and count`);
+            const series = (o.series ?? {}) as Record<string, unknown>;
+            if (typeof series !== "object") throw new Error(`${at}.series: expected an object`);
+            const out: Record<string, Stat> = {};
+            for (const name in series) {
+                const st = (series[name] ?? {}) as Record<string, unknown>;
+                if (!isNum(st.sum) || !isNum(st.n) || !isNum(st.min) || !isNum(st.max)) throw new Error(`${at}.series.${name}: expected sum, n, min and max`);
+                out[name] = { sum: st.sum, n: st.n, min: st.min, max: st.max };
+            }
+            return { t0: o.t0, t1: o.t1, count: o.count, series: out };
+        });
+    });
+    return { raw, levels };
+}
+
+// Version 1 files: a flat list of { t, r, rOA?, plv?, rPop? }
+function historyV1(v: unknown): HistoryState {
+    if (!Array.isArray(v)) throw new Error("history: expected an array");
+    const h = new OrderHistory();
+    v.forEach((p, k) => {
+        const o = (p ?? {}) as Record<string, unknown>;
+        if (!isNum(o.t) || !isNum(o.r)) throw new Error(`history[${k}]: expected t and r`);
+        const row: Record<string, number | undefined> = { r: o.r, r_oa: o.rOA as number, plv: o.plv as number };
+        if (o.rPop !== undefined) numbers(o.rPop, `history[${k}].rPop`, -1).forEach((x, a) => { row[`r_${a + 1}`] = x; });
+        h.push(o.t, row);
+    });
+    return h.state();
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { SpaceTimeBuffer } from "./spacetime";
+
+describe("SpaceTimeBuffer", () => {
+    it("keeps the newest rows, oldest first", () => {
+        const b = new SpaceTimeBuffer(3);
+        for (let t = 0; t < 5; t++) b.push(t, [t, 10 * t]);
+        expect(b.size).toBe(3);
+        expect(Array.from(b.row(0))).toEqual([2, 20]);
+        expect(Array.from(b.row(2))).toEqual([4, 40]);
+        expect(b.time(1)).toBe(3);
+        expect(b.pushed).toBe(5);
+        expect(b.slotOf(0)).toBe(2); // the ring wrapped: slots 2, 0, 1
+        expect(Array.from(b.mean(2))).toEqual([3.5, 35]);
+    });
+
+    it("starts over on a new width or when time goes backwards", () => {
+        const b = new SpaceTimeBuffer(4);
+        b.push(0, [1, 2]);
+        b.push(1, [1, 2]);
+        b.push(2, [1, 2, 3]);
+        expect(b.size).toBe(1);
+        expect(b.width).toBe(3);
+        b.push(0.5, [0, 0, 0]);
+        expect(b.size).toBe(1);
+        expect(b.time(0)).toBe(0.5);
+    });
+});
@@ -0,0 +1,68 @@
+// ----------------------- Space–time history -----------------------
+// Fixed-capacity ring buffer of per-oscillator rows (θ_i or R_i) over time,
+// oldest row first. Rows are float32: it's for display, not analysis.
+
+export class SpaceTimeBuffer {
+    readonly capacity: number;
+    width = 0; // values per row (N)
+    size = 0;
+    pushed = 0; // rows pushed since the last clear (lets views draw only what's new)
+    data: Float32Array;
+    times: Float64Array;
+
+    private head = 0; // slot the next row goes into
+
+    constructor(capacity: number, width = 0) {
+        this.capacity = Math.max(1, capacity);
+        this.times = new Float64Array(this.capacity);
+        this.data = new Float32Array(0);
+        this.clear(width);
+    }
+
+    clear(width = this.width) {
+        if (width !== this.width || this.data.length === 0) {
+            this.width = width;
+            this.data = new Float32Array(this.capacity * width);
+        }
+        this.size = 0;
+        this.head = 0;
+        this.pushed = 0;
+    }
+
+    // A new N or a clock that went backwards (reset) starts a fresh history
+    push(t: number, row: ArrayLike<number>) {
+        if (row.length !== this.width || (this.size > 0 && t < this.times[this.slotOf(this.size - 1)])) this.clear(row.length);
+        this.data.set(row, this.head * this.width);
+        this.times[this.head] = t;
+        this.head = (this.head + 1) % this.capacity;
+        this.size = Math.min(this.size + 1, this.capacity);
+        this.pushed++;
+    }
+
+    // Storage slot (0..capacity-1) of the k-th oldest row
+    slotOf(k: number) {
+        return (this.head - this.size + k + this.capacity) % this.capacity;
+    }
+
+    // k = 0 is the oldest row still held
+    row(k: number) {
+        const s = this.slotOf(k) * this.width;
+        return this.data.subarray(s, s + this.width);
+    }
+
+    time(k: number) {
+        return this.times[this.slotOf(k)];
+    }
+
+    // Column means over the newest `count` rows
+    mean(count = this.size) {
+        const out = new Float64Array(this.width);
+        const m = Math.min(count, this.size);
+        for (let k = this.size - m; k < this.size; k++) {
+            const r = this.row(k);
+            for (let i = 0; i < this.width; i++) out[i] += r[i];
+        }
+        if (m > 0) for (let i = 0; i < this.width; i++) out[i] /= m;
+        return out;
+    }
+}
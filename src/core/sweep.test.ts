@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { KSweep, sweepSchedule, sweepToCSV } from "./sweep";
+import { KuramotoSystem } from "./kuramoto";
+import { rngStream } from "./random";
+
+describe("sweepSchedule", () => {
+    it("goes up, and back down without repeating the top value", () => {
+        const opts = { Kmin: 0, Kmax: 2, steps: 3, transient: 1, average: 1, dt: 0.1, hysteresis: true };
+        expect(sweepSchedule(opts).map(s => [s.K, s.direction])).toEqual([
+            [0, "up"], [1, "up"], [2, "up"], [1, "down"], [0, "down"],
+        ]);
+        expect(sweepSchedule({ ...opts, hysteresis: false })).toHaveLength(3);
+    });
+});
+
+describe("KSweep", () => {
+    it("finds incoherence below and locking above Kc for Lorentzian ω", () => {
+        // Lorentzian width γ = 0.5 ⇒ Kc = 2γ = 1 and r∞ = sqrt(1 - Kc/K)
+        const N = 400;
+        const sys = new KuramotoSystem(N);
+        const rng = rngStream(11, "omega");
+        // deterministic quantiles of the Cauchy distribution keep this test stable
+        for (let i = 0; i < N; i++) sys.omega[i] = 0.5 * Math.tan(Math.PI * ((i + 0.5) / N - 0.5));
+        for (let i = 0; i < N; i++) sys.theta[i] = (rng.uniform() * 2 - 1) * Math.PI;
+
+        const sweep = new KSweep(sys, { Kmin: 0.4, Kmax: 4, steps: 2, transient: 30, average: 10, dt: 0.05, hysteresis: false });
+        while (!sweep.done) sweep.advance(1000);
+        const [low, high] = sweep.points;
+        expect(low.rMean).toBeLessThan(0.25);
+        expect(high.rMean).toBeCloseTo(Math.sqrt(1 - 1 / 4), 1);
+        expect(sweep.progress).toBe(1);
+    });
+
+    it("reports points incrementally and exports CSV", () => {
+        const sys = new KuramotoSystem(10);
+        const sweep = new KSweep(sys, { Kmin: 0, Kmax: 1, steps: 2, transient: 0.1, average: 0.1, dt: 0.05, hysteresis: true });
+        expect(sweep.advance(4)).toHaveLength(1);
+        expect(sweep.progress).toBeCloseTo(1 / 3, 9);
+        while (!sweep.done) sweep.advance(3);
+        expect(sweep.points.map(p => p.direction)).toEqual(["up", "up", "down"]);
+        expect(sweepToCSV(sweep.points).split("\n")[0]).toBe("K,r_mean,r_std,direction");
+    });
+});
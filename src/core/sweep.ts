@@ -0,0 +1,96 @@
+// ----------------------- Coupling sweep -----------------------
+// Quasi-static K-sweep for r∞(K) bifurcation diagrams. Phases carry over from
+// one K to the next (never reset), so an up-then-down sweep exposes hysteresis.
+import type { KuramotoSystem } from "./kuramoto";
+
+export interface SweepOptions {
+    Kmin: number;
+    Kmax: number;
+    steps: number; // number of K values per direction
+    transient: number; // sim time discarded at each K
+    average: number; // sim time r is averaged over at each K
+    dt: number;
+    hysteresis: boolean; // sweep back down after going up
+}
+
+export interface SweepPoint {
+    K: number;
+    rMean: number;
+    rStd: number;
+    direction: "up" | "down";
+}
+
+export function sweepSchedule(opts: SweepOptions) {
+    const n = Math.max(1, Math.round(opts.steps));
+    const up = Array.from({ length: n }, (_, k) => (n === 1 ? opts.Kmin : opts.Kmin + ((opts.Kmax - opts.Kmin) * k) / (n - 1)));
+    const sched = up.map(K => ({ K, direction: "up" as const }));
+    if (!opts.hysteresis) return sched;
+    // the top K was just measured going up; come back down from the next one
+    return [...sched, ...up.slice(0, -1).reverse().map(K => ({ K, direction: "down" as const }))];
+}
+
+export class KSweep {
+    readonly opts: SweepOptions;
+    readonly schedule: Array<{ K: number; direction: "up" | "down" }>;
+    readonly points: SweepPoint[] = [];
+
+    private sys: KuramotoSystem;
+    private idx = 0; // position in schedule
+    private stepInK = 0;
+    private readonly transientSteps: number;
+    private readonly averageSteps: number;
+    private mean = 0;
+    private m2 = 0;
+
+    constructor(sys: KuramotoSystem, opts: SweepOptions) {
+        this.sys = sys;
+        this.opts = opts;
+        this.schedule = sweepSchedule(opts);
+        this.transientSteps = Math.max(0, Math.round(opts.transient / opts.dt));
+        this.averageSteps = Math.max(1, Math.round(opts.average / opts.dt));
+        if (this.schedule.length > 0) sys.K = this.schedule[0].K;
+    }
+
+    get done() {
+        return this.idx >= this.schedule.length;
+    }
+
+    get progress() {
+        const per = this.transientSteps + this.averageSteps;
+        return Math.min(1, (this.idx * per + this.stepInK) / (this.schedule.length * per));
+    }
+
+    // Integrate up to `maxSteps` steps; returns the points completed meanwhile
+    advance(maxSteps: number): SweepPoint[] {
+        const out: SweepPoint[] = [];
+        const sys = this.sys;
+        for (let s = 0; s < maxSteps && !this.done; s++) {
+            sys.step(this.opts.dt);
+            this.stepInK++;
+            const k = this.stepInK - this.transientSteps;
+            if (k > 0) {
+                // Welford running mean / variance of r over the averaging window
+                const r = sys.order().r;
+                const d = r - this.mean;
+                this.mean += d / k;
+                this.m2 += d * (r - this.mean);
+            }
+            if (k === this.averageSteps) {
+                const { K, direction } = this.schedule[this.idx];
+                const pt = { K, rMean: this.mean, rStd: Math.sqrt(this.m2 / k), direction };
+                this.points.push(pt);
+                out.push(pt);
+                this.idx++;
+                this.stepInK = 0;
+                this.mean = 0;
+                this.m2 = 0;
+                if (!this.done) sys.K = this.schedule[this.idx].K;
+            }
+        }
+        return out;
+    }
+}
+
+export function sweepToCSV(points: SweepPoint[]) {
+    return "K,r_mean,r_std,direction\n" + points.map(p => `${p.K},${p.rMean},${p.rStd},${p.direction}`).join("\n");
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { criticalCoupling, steadyStateR } from "./theory";
+
+describe("criticalCoupling", () => {
+    it("is 2γ for Lorentzian and 2/(π g(0)) otherwise", () => {
+        expect(criticalCoupling({ kind: "cauchy", gamma: 0.5 })).toBe(1);
+        expect(criticalCoupling({ kind: "gaussian", std: 1 })).toBeCloseTo(2 * Math.sqrt(2 * Math.PI) / Math.PI, 12);
+        expect(criticalCoupling({ kind: "uniform", halfRange: 1 })).toBeCloseTo(4 / Math.PI, 12);
+    });
+});
+
+describe("steadyStateR", () => {
+    it("uses the Ott–Antonsen closed form for Lorentzian ω", () => {
+        const d = { kind: "cauchy", gamma: 0.5 } as const;
+        expect(steadyStateR(d, 0.8)).toBe(0);
+        expect(steadyStateR(d, 4)).toBeCloseTo(Math.sqrt(0.75), 12);
+    });
+
+    it("solves the self-consistency equation for Gaussian ω", () => {
+        const d = { kind: "gaussian", std: 1 } as const;
+        const Kc = criticalCoupling(d);
+        expect(steadyStateR(d, 0.9 * Kc)).toBe(0);
+        const r = steadyStateR(d, 1.5 * Kc);
+        expect(r).toBeGreaterThan(0.5);
+        expect(r).toBeLessThan(1);
+        expect(steadyStateR(d, 20)).toBeGreaterThan(0.99);
+    });
+
+    it("jumps to π/4 just above Kc for uniform ω", () => {
+        const d = { kind: "uniform", halfRange: 1 } as const;
+        expect(steadyStateR(d, criticalCoupling(d) * 1.0001)).toBeCloseTo(Math.PI / 4, 2);
+    });
+});
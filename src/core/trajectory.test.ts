@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { KuramotoSystem } from "./kuramoto";
+import { TrajectorySampler, TrajectoryStore, npy, trajectoryToCSV, trajectoryToNpz, trajectoryToZarr, type TrajectoryBatch } from "./trajectory";
+import { crc32 } from "./zip";
+
+const concat = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((s, p) => s + p.length, 0));
+    let o = 0;
+    for (const p of parts) {
+        out.set(p, o);
+        o += p.length;
+    }
+    return out;
+};
+
+function batch(t0: number, rows: number, width: number, drift = false): TrajectoryBatch {
+    const t = Float64Array.from({ length: rows }, (_, k) => t0 + k);
+    const theta = Float64Array.from({ length: rows * width }, (_, k) => t0 + Math.floor(k / width) + (k % width) / 10);
+    return { width, t, theta, drift: drift ? theta.map(x => -x) : null };
+}
+
+// names of the entries in a stored zip, read back from its central directory
+function zipNames(buf: Uint8Array) {
+    const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    const end = buf.length - 22;
+    expect(v.getUint32(end, true)).toBe(0x06054b50);
+    let p = v.getUint32(end + 16, true);
+    const names: string[] = [];
+    for (let k = 0; k < v.getUint16(end + 10, true); k++) {
+        expect(v.getUint32(p, true)).toBe(0x02014b50);
+        const len = v.getUint16(p + 28, true);
+        names.push(new TextDecoder().decode(buf.subarray(p + 46, p + 46 + len)));
+        p += 46 + len;
+    }
+    return names;
+}
+
+describe("TrajectorySampler", () => {
+    it("samples every `interval` of sim time, starting from the rebase time", () => {
+        const sys = new KuramotoSystem(3, { K: 1 });
+        sys.omega.set([1, 2, 3]);
+        const s = new TrajectorySampler({ interval: 0.1, drift: true });
+        s.sample(sys);
+        for (let k = 0; k < 25; k++) {
+            sys.step(0.02);
+            s.sample(sys);
+        }
+        const b = s.drain()!;
+        expect(Array.from(b.t).map(t => +t.toFixed(6))).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5]);
+        expect(b.theta.length).toBe(18);
+        expect(b.drift!.length).toBe(18);
+        expect(s.drain()).toBeNull();
+
+        s.rebase(sys.t); // same run: nothing new to record
+        s.sample(sys);
+        expect(s.drain()).toBeNull();
+        sys.t = 0; // Reset
+        s.rebase(0);
+        s.sample(sys);
+        expect(Array.from(s.drain()!.t)).toEqual([0]);
+    });
+});
+
+describe("TrajectoryStore", () => {
+    it("fills fixed-size chunks and starts over on a new width or an earlier time", () => {
+        const st = new TrajectoryStore(8); // 4 rows of width 2 per chunk
+        st.append(batch(0, 3, 2));
+        st.append(batch(3, 3, 2));
+        expect(st.rows).toBe(6);
+        expect(st.chunkCount).toBe(2);
+        expect(st.time(4)).toBe(4);
+        expect(Array.from(st.theta(5))).toEqual([5, 5.1]);
+        expect(st.chunk(1).t.length).toBe(2);
+        expect(Number.isNaN(st.chunk(1, true).t[3])).toBe(true);
+
+        st.append(batch(1, 2, 2));
+        expect(st.rows).toBe(2);
+        st.append(batch(10, 1, 3));
+        expect([st.rows, st.width, st.chunkRows]).toEqual([1, 3, 2]);
+    });
+});
+
+describe("exports", () => {
+    const st = new TrajectoryStore(8);
+    st.append(batch(0, 5, 2, true));
+
+    it("writes a wide CSV", () => {
+        const lines = trajectoryToCSV(st).join("").trim().split("\n");
+        expect(lines[0]).toBe("t,theta_0,theta_1,drift_0,drift_1");
+        expect(lines).toHaveLength(6);
+        expect(lines[5]).toBe("4,4,4.1,-4,-4.1");
+    });
+
+    it("writes .npy headers NumPy accepts", () => {
+        const [head, ...data] = npy([5, 2], [new Float64Array(10)]);
+        const text = new TextDecoder().decode(head.subarray(10));
+        expect(Array.from(head.subarray(0, 8))).toEqual([0x93, 78, 85, 77, 80, 89, 1, 0]);
+        expect(head.length % 64).toBe(0);
+        expect(text).toMatch(/^\{'descr': '<f8', 'fortran_order': False, 'shape': \(5, 2\), \} *\n$/);
+        expect(data[0].length).toBe(80);
+    });
+
+    it("bundles arrays into zip archives", () => {
+        expect(crc32([new TextEncoder().encode("123456789")])).toBe(0xcbf43926);
+        expect(zipNames(concat(trajectoryToNpz(st)))).toEqual(["t.npy", "theta.npy", "drift.npy"]);
+        const zarr = concat(trajectoryToZarr(st, { interval: 1 }));
+        expect(zipNames(zarr)).toEqual([
+            ".zgroup", ".zattrs", "t/.zarray", "theta/.zarray", "drift/.zarray",
+            "t/0", "theta/0.0", "drift/0.0", "t/1", "theta/1.0", "drift/1.0",
+        ]);
+    });
+});
@@ -0,0 +1,244 @@
+// ----------------------- Trajectory recording -----------------------
+// Every oscillator's θ_i (and optionally dθ_i/dt) at a fixed sampling interval
+// for the whole run. The worker samples after each step and ships the rows with
+// its frames; the UI appends them to chunked typed arrays and exports those as
+// wide CSV, NumPy arrays (.npz) or a Zarr v2 store (zipped).
+import type { KuramotoSystem } from "./kuramoto";
+import { zip, type ZipEntry } from "./zip";
+
+export interface RecordOptions {
+    interval: number; // sim seconds between samples (≤ dt => every step)
+    drift: boolean; // also record dθ/dt
+}
+
+// Rows sampled since the last frame, row-major
+export interface TrajectoryBatch {
+    width: number; // N
+    t: Float64Array;
+    theta: Float64Array; // t.length × width
+    drift: Float64Array | null;
+}
+
+export class TrajectorySampler {
+    readonly options: RecordOptions;
+    private next = -Infinity;
+    private last = -Infinity; // time of the latest sample: times only increase
+    private t: number[] = [];
+    private theta: Float64Array[] = [];
+    private drift: Float64Array[] = [];
+
+    constructor(options: RecordOptions) {
+        this.options = options;
+    }
+
+    // New state loaded at time t. The same run going on (e.g. a new graph) keeps
+    // its cadence; an earlier t (Reset, an older snapshot) starts a new series.
+    rebase(t: number) {
+        if (t >= this.last) return;
+        this.last = -Infinity;
+        this.next = t;
+        this.t = [];
+        this.theta = [];
+        this.drift = [];
+    }
+
+    // Call after every step, and once to record the starting state
+    sample(sys: KuramotoSystem) {
+        const { interval, drift } = this.options;
+        // tolerance so accumulated dt round-off doesn't skip a sample
+        if (sys.t <= this.last || sys.t < this.next - 1e-9 * Math.max(1, Math.abs(sys.t))) return;
+        this.last = sys.t;
+        this.t.push(sys.t);
+        this.theta.push(sys.theta.slice());
+        if (drift) this.drift.push(sys.drift());
+        this.next = this.next + interval > sys.t ? this.next + interval : sys.t + interval;
+    }
+
+    drain(): TrajectoryBatch | null {
+        const rows = this.t.length;
+        if (rows === 0) return null;
+        const width = this.theta[0].length;
+        const pack = (list: Float64Array[]) => {
+            const out = new Float64Array(rows * width);
+            list.forEach((row, k) => out.set(row, k * width));
+            return out;
+        };
+        const batch = {
+            width,
+            t: Float64Array.from(this.t),
+            theta: pack(this.theta),
+            drift: this.options.drift ? pack(this.drift) : null,
+        };
+        this.t = [];
+        this.theta = [];
+        this.drift = [];
+        return batch;
+    }
+}
+
+interface Chunk {
+    t: Float64Array;
+    theta: Float64Array;
+    drift: Float64Array | null;
+}
+
+/**
+ * Append-only storage in fixed-size chunks of `chunkRows` rows (about
+ * `chunkValues` numbers each), allocated as needed. Unused rows of the last
+ * chunk hold NaN, so a chunk can be written out as a Zarr chunk as it is.
+ */
+export class TrajectoryStore {
+    readonly chunkValues: number;
+    width = 0;
+    withDrift = false;
+    chunkRows = 0;
+    rows = 0;
+    private chunks: Chunk[] = [];
+
+    constructor(chunkValues = 1 << 20) {
+        this.chunkValues = chunkValues;
+    }
+
+    clear() {
+        this.chunks = [];
+        this.rows = 0;
+    }
+
+    // A batch of another width or layout, or from an earlier time (Reset), starts over
+    append(batch: TrajectoryBatch) {
+        const n = batch.t.length;
+        if (n === 0) return;
+        const hasDrift = batch.drift !== null;
+        if (batch.width !== this.width || hasDrift !== this.withDrift || (this.rows > 0 && batch.t[0] <= this.time(this.rows - 1))) {
+            this.clear();
+            this.width = batch.width;
+            this.withDrift = hasDrift;
+            this.chunkRows = Math.max(1, Math.floor(this.chunkValues / Math.max(1, batch.width)));
+        }
+        const w = this.width, R = this.chunkRows;
+        for (let k = 0; k < n; k++) {
+            const slot = this.rows % R;
+            if (slot === 0) {
+                this.chunks.push({
+                    t: new Float64Array(R).fill(NaN),
+                    theta: new Float64Array(R * w).fill(NaN),
+                    drift: hasDrift ? new Float64Array(R * w).fill(NaN) : null,
+                });
+            }
+            const c = this.chunks[this.chunks.length - 1];
+            c.t[slot] = batch.t[k];
+            c.theta.set(batch.theta.subarray(k * w, (k + 1) * w), slot * w);
+            if (c.drift && batch.drift) c.drift.set(batch.drift.subarray(k * w, (k + 1) * w), slot * w);
+            this.rows++;
+        }
+    }
+
+    get chunkCount() {
+        return this.chunks.length;
+    }
+
+    get bytes() {
+        return this.chunks.length * this.chunkRows * (1 + this.width * (this.withDrift ? 2 : 1)) * 8;
+    }
+
+    time(k: number) {
+        return this.chunks[Math.floor(k / this.chunkRows)].t[k % this.chunkRows];
+    }
+
+    theta(k: number) {
+        const c = this.chunks[Math.floor(k / this.chunkRows)], s = k % this.chunkRows;
+        return c.theta.subarray(s * this.width, (s + 1) * this.width);
+    }
+
+    drift(k: number) {
+        const c = this.chunks[Math.floor(k / this.chunkRows)], s = k % this.chunkRows;
+        return c.drift ? c.drift.subarray(s * this.width, (s + 1) * this.width) : null;
+    }
+
+    // The filled part of chunk c (all of it, padding included, when `padded`)
+    chunk(c: number, padded = false) {
+        const ch = this.chunks[c];
+        const used = padded ? this.chunkRows : Math.min(this.chunkRows, this.rows - c * this.chunkRows);
+        const w = this.width;
+        return { t: ch.t.subarray(0, used), theta: ch.theta.subarray(0, used * w), drift: ch.drift?.subarray(0, used * w) ?? null };
+    }
+}
+
+// ---- Export ----
+// Typed arrays are written in the platform's byte order, which is
+// little-endian on every browser platform; the headers say so ("<f8").
+// The stores' arrays are plain (never shared) buffers.
+const bytes = (a: Float64Array) => new Uint8Array(a.buffer as ArrayBuffer, a.byteOffset, a.byteLength);
+
+// Wide CSV: t, theta_0 … theta_{N−1}[, drift_0 …], one row per sample (as Blob parts)
+export function trajectoryToCSV(store: TrajectoryStore): string[] {
+    const w = store.width;
+    const head = ["t"];
+    for (let i = 0; i < w; i++) head.push(`theta_${i}`);
+    if (store.withDrift) for (let i = 0; i < w; i++) head.push(`drift_${i}`);
+    const parts = [head.join(",") + "\n"];
+    for (let c = 0; c < store.chunkCount; c++) {
+        const { t, theta, drift } = store.chunk(c);
+        const lines: string[] = new Array(t.length);
+        for (let k = 0; k < t.length; k++) {
+            let line = String(t[k]);
+            for (let i = 0; i < w; i++) line += "," + theta[k * w + i];
+            if (drift) for (let i = 0; i < w; i++) line += "," + drift[k * w + i];
+            lines[k] = line;
+        }
+        parts.push(lines.join("\n") + "\n");
+    }
+    return parts;
+}
+
+// NumPy .npy (format 1.0) of float64 data in C order, split across `data` parts
+export function npy(shape: number[], data: Float64Array[]): Uint8Array<ArrayBuffer>[] {
+    const dims = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(", ")})`;
+    let header = `{'descr': '<f8', 'fortran_order': False, 'shape': ${dims}, }`;
+    // magic(6) + version(2) + length(2) + header, padded to 64 bytes and ending in \n
+    header += " ".repeat(63 - ((10 + header.length) % 64)) + "\n";
+    const pre = new Uint8Array(10 + header.length);
+    pre.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0]); // \x93NUMPY v1.0
+    new DataView(pre.buffer).setUint16(8, header.length, true);
+    for (let i = 0; i < header.length; i++) pre[10 + i] = header.charCodeAt(i);
+    return [pre, ...data.map(bytes)];
+}
+
+// .npz with t (rows,), theta (rows, N) and drift (rows, N) when recorded; np.load reads it
+export function trajectoryToNpz(store: TrajectoryStore): Uint8Array<ArrayBuffer>[] {
+    const n = store.chunkCount, rows = store.rows, w = store.width;
+    const chunks = Array.from({ length: n }, (_, c) => store.chunk(c));
+    const entries: ZipEntry[] = [
+        { name: "t.npy", data: npy([rows], chunks.map(c => c.t)) },
+        { name: "theta.npy", data: npy([rows, w], chunks.map(c => c.theta)) },
+    ];
+    if (store.withDrift) entries.push({ name: "drift.npy", data: npy([rows, w], chunks.map(c => c.drift!)) });
+    return zip(entries);
+}
+
+/**
+ * Zarr v2 group in a zip store, one Zarr chunk per storage chunk (uncompressed,
+ * NaN-padded at the end). Open with zarr.open(zarr.storage.ZipStore(path)),
+ * or copy into HDF5 with the same chunking. `attrs` become the group's .zattrs.
+ */
+export function trajectoryToZarr(store: TrajectoryStore, attrs: Record<string, unknown> = {}): Uint8Array<ArrayBuffer>[] {
+    const enc = new TextEncoder();
+    const json = (v: unknown) => [enc.encode(JSON.stringify(v, null, 2))];
+    const rows = store.rows, w = store.width, R = store.chunkRows;
+    const zarray = (shape: number[], chunks: number[]) => json({
+        zarr_format: 2, shape, chunks, dtype: "<f8", compressor: null, fill_value: "NaN", order: "C", filters: null,
+    });
+    const entries: ZipEntry[] = [
+        { name: ".zgroup", data: json({ zarr_format: 2 }) },
+        { name: ".zattrs", data: json(attrs) },
+        { name: "t/.zarray", data: zarray([rows], [R]) },
+        { name: "theta/.zarray", data: zarray([rows, w], [R, w]) },
+    ];
+    if (store.withDrift) entries.push({ name: "drift/.zarray", data: zarray([rows, w], [R, w]) });
+    for (let c = 0; c < store.chunkCount; c++) {
+        const { t, theta, drift } = store.chunk(c, true);
+        entries.push({ name: `t/${c}`, data: [bytes(t)] }, { name: `theta/${c}.0`, data: [bytes(theta)] });
+        if (drift) entries.push({ name: `drift/${c}.0`, data: [bytes(drift)] });
+    }
+    return zip(entries);
+}
@@ -0,0 +1,11 @@
+// ----------------------- Shared math helpers -----------------------
+export const TAU = Math.PI * 2;
+
+// Integer clamp: non-finite input falls back to `lo`
+export const clamp = (v: number, lo: number, hi: number) => {
+    const n = Number.isFinite(v) ? Math.trunc(v) : lo;
+    return Math.max(lo, Math.min(hi, n));
+};
+
+// wrap an angle to [-π, π]
+export const wrapAngle = (x: number) => Math.atan2(Math.sin(x), Math.cos(x));
@@ -0,0 +1,83 @@
+// ----------------------- Minimal ZIP writer -----------------------
+// Uncompressed ("stored") entries only: enough to bundle .npy arrays into an
+// .npz or a Zarr directory into a zip store without copying the data.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array<ArrayBuffer>[]; // concatenated in order
+}
+
+const CRC_TABLE = (() => {
+    const t = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        t[n] = c >>> 0;
+    }
+    return t;
+})();
+
+export function crc32(parts: Uint8Array<ArrayBuffer>[]) {
+    let c = 0xffffffff;
+    for (const p of parts) {
+        for (let i = 0; i < p.length; i++) c = CRC_TABLE[(c ^ p[i]) & 0xff] ^ (c >>> 8);
+    }
+    return (c ^ 0xffffffff) >>> 0;
+}
+
+const DOS_DATE = (1 << 5) | 1; // 1980-01-01, 00:00
+const UTF8_NAMES = 0x0800;
+
+// The archive as a list of byte chunks (hand to `new Blob(parts)`); no ZIP64, so < 4 GB
+export function zip(entries: ZipEntry[]): Uint8Array<ArrayBuffer>[] {
+    if (entries.length > 0xffff) throw new Error("too many files for ZIP");
+    const out: Uint8Array<ArrayBuffer>[] = [];
+    const central: Uint8Array<ArrayBuffer>[] = [];
+    const enc = new TextEncoder();
+    let offset = 0;
+    for (const e of entries) {
+        const name = enc.encode(e.name);
+        const size = e.data.reduce((s, p) => s + p.length, 0);
+        const crc = crc32(e.data);
+        if (offset + size > 0xffffffff) throw new Error("archive too large for ZIP (4 GB)");
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(6, UTF8_NAMES, true);
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, 0, true);
+        local.setUint16(12, DOS_DATE, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        out.push(new Uint8Array(local.buffer), name, ...e.data);
+
+        const cd = new DataView(new ArrayBuffer(46));
+        cd.setUint32(0, 0x02014b50, true);
+        cd.setUint16(4, 20, true); // version made by
+        cd.setUint16(6, 20, true);
+        cd.setUint16(8, UTF8_NAMES, true);
+        cd.setUint16(10, 0, true);
+        cd.setUint16(12, 0, true);
+        cd.setUint16(14, DOS_DATE, true);
+        cd.setUint32(16, crc, true);
+        cd.setUint32(20, size, true);
+        cd.setUint32(24, size, true);
+        cd.setUint16(28, name.length, true);
+        cd.setUint32(42, offset, true); // everything else stays 0
+        central.push(new Uint8Array(cd.buffer), name);
+
+        offset += 30 + name.length + size;
+    }
+    const cdSize = central.reduce((s, p) => s + p.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, cdSize, true);
+    end.setUint32(16, offset, true);
+    return [...out, ...central, new Uint8Array(end.buffer)];
+}
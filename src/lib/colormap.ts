@@ -0,0 +1,21 @@
+// Colormaps for the space–time plot, as 0..255 RGB triples
+
+// Cyclic hue wheel for phases: θ and θ + 2π get the same colour
+export function phaseRGB(theta: number): [number, number, number] {
+    const h = (((theta / (2 * Math.PI)) % 1) + 1) % 1 * 6;
+    const x = 1 - Math.abs((h % 2) - 1);
+    const [r, g, b] =
+        h < 1 ? [1, x, 0] : h < 2 ? [x, 1, 0] : h < 3 ? [0, 1, x] :
+        h < 4 ? [0, x, 1] : h < 5 ? [x, 0, 1] : [1, 0, x];
+    return [r * 255, g * 255, b * 255];
+}
+
+// Viridis, piecewise linear through 5 stops; v in [0, 1]
+const VIRIDIS = [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]];
+
+export function viridisRGB(v: number): [number, number, number] {
+    const x = Math.min(1, Math.max(0, v)) * (VIRIDIS.length - 1);
+    const k = Math.min(VIRIDIS.length - 2, Math.floor(x));
+    const f = x - k, a = VIRIDIS[k], b = VIRIDIS[k + 1];
+    return [a[0] + f * (b[0] - a[0]), a[1] + f * (b[1] - a[1]), a[2] + f * (b[2] - a[2])];
+}
@@ -0,0 +1,12 @@
+// Save a string or Blob through a temporary <a download> link
+export function downloadBlob(data: Blob | string, filename: string, type = "text/plain") {
+    const blob = typeof data === "string" ? new Blob([data], { type }) : data;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+}
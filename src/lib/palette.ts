@@ -0,0 +1,2 @@
+// Line / dot colours for populations 1..MAX_POPULATIONS
+export const POPULATION_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#9333ea", "#ea580c", "#0891b2"];
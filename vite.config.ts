@@ -2,6 +2,12 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { fileURLToPath, URL } from 'node:url';
 
+// Cross-origin isolation lets the simulation worker share θ through a SharedArrayBuffer
+const isolationHeaders = {
+  "Cross-Origin-Opener-Policy": "same-origin",
+  "Cross-Origin-Embedder-Policy": "require-corp",
+};
+
 // @ts-nocheck
 export default defineConfig({
   plugins: [react()],
@@ -10,5 +16,7 @@ export default defineConfig({
       "@": fileURLToPath(new URL("./src", import.meta.url))
     }
   },
+  server: { headers: isolationHeaders },
+  preview: { headers: isolationHeaders },
   build: { outDir: 'dist' }
 });
\ No newline at end of file